@@ -0,0 +1,167 @@
+// Relay server for online play: room codes, seats held through reconnects,
+// authoritative games and broadcasts to everyone in the room.
+//
+//   npm run relay
+//   npm run relay -- --port 9000
+//
+// Listens on localhost only; the app connects to ws://localhost:8787 unless
+// VITE_RELAY_URL says otherwise.
+import { randomUUID } from "node:crypto"
+import { parseArgs } from "node:util"
+import { WebSocketServer, type WebSocket } from "ws"
+import {
+  RECONNECT_GRACE_MS,
+  RELAY_PORT,
+  advanceRoom,
+  claimSeat,
+  createRoom,
+  leaveSeat,
+  nextRound,
+  parseClientMessage,
+  playIntent,
+  roomCode,
+  roomView,
+  type ClientMessage,
+  type Room,
+  type Seat,
+  type ServerMessage,
+} from "../src/lib/netplay"
+
+const { values } = parseArgs({
+  options: {
+    port: { type: "string", short: "p", default: String(RELAY_PORT) },
+    help: { type: "boolean", short: "h", default: false },
+  },
+})
+
+if (values.help) {
+  console.log(`Usage: npm run relay -- [options]
+
+  -p, --port <n>   port to listen on (localhost only)   [${RELAY_PORT}]`)
+  process.exit(0)
+}
+
+// How often AI matches are moved on and empty rooms swept
+const TICK_MS = 200
+
+interface Client {
+  socket: WebSocket
+  code: string
+  seat: Seat
+}
+
+const rooms = new Map<string, Room>()
+const clients = new Set<Client>()
+// Rooms nobody is connected to, and since when; dropped after the grace period
+const emptySince = new Map<string, number>()
+
+function send(socket: WebSocket, msg: ServerMessage) {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(msg))
+}
+
+function publish(room: Room) {
+  rooms.set(room.code, room)
+  const view = roomView(room)
+  for (const c of clients) if (c.code === room.code) send(c.socket, { type: "room", room: view })
+}
+
+function leave(client: Client) {
+  clients.delete(client)
+  const room = rooms.get(client.code)
+  if (room) publish(leaveSeat(room, client.seat, Date.now()))
+}
+
+function join(socket: WebSocket, room: Room, name: string, token: string, spectate: boolean): Client {
+  // the same seat open in another tab, or a socket the relay hasn't seen drop yet
+  for (const c of clients) {
+    if (c.code === room.code && c.seat !== "spectator" && room.seats[c.seat]?.token === token) {
+      clients.delete(c)
+      c.socket.close(4000, "Reconnected elsewhere")
+    }
+  }
+  const claimed = claimSeat(room, name, token, spectate, Date.now())
+  const client = { socket, code: room.code, seat: claimed.seat }
+  clients.add(client)
+  emptySince.delete(room.code)
+  rooms.set(room.code, claimed.room)
+  send(socket, { type: "welcome", seat: claimed.seat, token, room: roomView(claimed.room) })
+  publish(claimed.room)
+  return client
+}
+
+function handle(socket: WebSocket, client: Client | null, msg: ClientMessage): Client | null {
+  switch (msg.type) {
+    case "create": {
+      if (client) leave(client)
+      let code = roomCode(Math.random)
+      while (rooms.has(code)) code = roomCode(Math.random)
+      const room = createRoom(code, msg, Date.now())
+      console.log(`room ${code}: ${msg.kind} created by ${msg.name}`)
+      return join(socket, room, msg.name, randomUUID(), false)
+    }
+    case "join": {
+      const room = rooms.get(msg.code)
+      if (!room) throw new Error(`No room ${msg.code}`)
+      if (client) leave(client)
+      return join(socket, room, msg.name, msg.token ?? randomUUID(), !!msg.spectate)
+    }
+    case "intent": {
+      const room = client && rooms.get(client.code)
+      if (!client || !room) throw new Error("Join a room first")
+      publish(playIntent(room, client.seat, msg.round, msg.intent, Math.random))
+      return client
+    }
+    case "rematch": {
+      const room = client && rooms.get(client.code)
+      if (!client || !room) throw new Error("Join a room first")
+      if (client.seat === "spectator" || room.kind !== "duel") throw new Error("Only the players can ask for a rematch")
+      if (room.phase !== "over") throw new Error("The game is still on")
+      publish(nextRound(room, Date.now()))
+      return client
+    }
+  }
+}
+
+const wss = new WebSocketServer({ host: "127.0.0.1", port: Number(values.port) })
+
+wss.on("connection", (socket) => {
+  let client: Client | null = null
+  socket.on("message", (data) => {
+    try {
+      client = handle(socket, client, parseClientMessage(String(data)))
+    } catch (err) {
+      send(socket, { type: "rejected", reason: err instanceof Error ? err.message : String(err) })
+    }
+  })
+  socket.on("close", () => {
+    // still ours unless a reconnect took the seat over
+    if (client && clients.has(client)) leave(client)
+  })
+})
+
+wss.on("listening", () => console.log(`Relay listening on ws://localhost:${values.port}`))
+wss.on("error", (err) => {
+  console.error(err.message)
+  process.exit(1)
+})
+
+const ticker = setInterval(() => {
+  const now = Date.now()
+  for (const room of rooms.values()) {
+    const next = advanceRoom(room, now, Math.random)
+    if (next !== room) publish(next)
+    if ([...clients].some((c) => c.code === room.code)) continue
+    if (!emptySince.has(room.code)) emptySince.set(room.code, now)
+    else if (now - emptySince.get(room.code)! > RECONNECT_GRACE_MS) {
+      rooms.delete(room.code)
+      emptySince.delete(room.code)
+      console.log(`room ${room.code}: closed`)
+    }
+  }
+}, TICK_MS)
+
+process.on("SIGINT", () => {
+  clearInterval(ticker)
+  wss.close()
+  process.exit(0)
+})
@@ -0,0 +1,123 @@
+// Plays batches of AI-vs-AI games headlessly and reports the results.
+//
+//   npm run simulate -- --x hard --o easy --games 500 --swap
+//   npm run simulate -- --x medium --o noisy --board 4x4 --mode chaos --out results.csv
+//
+// Run with --help for every option.
+import { writeFileSync } from "node:fs"
+import { parseArgs } from "node:util"
+import { BOARD_PRESETS, type Mode, type Player } from "../src/lib/engine"
+import { runBatch, toCsv, type StarterPolicy, type Tally } from "../src/lib/simulate"
+import { MAX_SKILL, listStrategies } from "../src/lib/strategies"
+
+const MODES: Mode[] = ["normal", "blind-skip", "drunken", "chaos", "block", "undo"]
+
+const { values } = parseArgs({
+  options: {
+    x: { type: "string", default: "hard" },
+    o: { type: "string", default: "hard" },
+    "skill-x": { type: "string", default: String(MAX_SKILL) },
+    "skill-o": { type: "string", default: String(MAX_SKILL) },
+    games: { type: "string", short: "n", default: "100" },
+    board: { type: "string", default: "3x3" },
+    mode: { type: "string", default: "normal" },
+    "mode-side": { type: "string", default: "X" },
+    starter: { type: "string", default: "alternate" },
+    swap: { type: "boolean", default: false },
+    seed: { type: "string", default: String(Date.now() % 2 ** 32) },
+    out: { type: "string" },
+    format: { type: "string" },
+    quiet: { type: "boolean", short: "q", default: false },
+    help: { type: "boolean", short: "h", default: false },
+  },
+})
+
+if (values.help) {
+  console.log(`Usage: npm run simulate -- [options]
+
+  --x <id>            strategy for X (contestant A)        [hard]
+  --o <id>            strategy for O (contestant B)        [hard]
+  --skill-x <0-100>   skill for A                          [${MAX_SKILL}]
+  --skill-o <0-100>   skill for B                          [${MAX_SKILL}]
+  -n, --games <n>     number of games                      [100]
+  --board <preset>    ${BOARD_PRESETS.map((p) => p.id).join(" | ")}   [3x3]
+  --mode <mode>       ${MODES.join(" | ")}   [normal]
+  --mode-side <X|O>   side that plays under the mode's human rules [X]
+  --starter <policy>  X | O | alternate | random           [alternate]
+  --swap              alternate which contestant plays X
+  --seed <n>          RNG seed, for reproducible runs
+  --out <file>        write per-game results (.csv) or everything (.json)
+  --format <csv|json> output format when it cannot be told from --out
+  -q, --quiet         no progress output
+
+Strategies:
+${listStrategies().map((s) => `  ${s.id.padEnd(10)} ${s.description}`).join("\n")}`)
+  process.exit(0)
+}
+
+function fail(message: string): never {
+  console.error(message)
+  process.exit(1)
+}
+
+const strategyIds = listStrategies().map((s) => s.id)
+for (const id of [values.x, values.o]) {
+  if (!strategyIds.includes(id)) fail(`Unknown strategy "${id}". Known: ${strategyIds.join(", ")}`)
+}
+const preset = BOARD_PRESETS.find((p) => p.id === values.board) ?? fail(`Unknown board "${values.board}"`)
+if (!MODES.includes(values.mode as Mode)) fail(`Unknown mode "${values.mode}"`)
+if (!["X", "O", "alternate", "random"].includes(values.starter)) fail(`Unknown starter "${values.starter}"`)
+const games = Number(values.games)
+if (!Number.isInteger(games) || games < 1) fail("--games must be a positive integer")
+const skill = (flag: "skill-x" | "skill-o") => {
+  const n = Number(values[flag])
+  if (!/^\d+$/.test(values[flag]) || n > MAX_SKILL) fail(`--${flag} must be a whole number from 0 to ${MAX_SKILL} (got "${values[flag]}")`)
+  return n
+}
+const skillX = skill("skill-x")
+const skillO = skill("skill-o")
+if (values["mode-side"] !== "X" && values["mode-side"] !== "O") fail(`--mode-side must be X or O (got "${values["mode-side"]}")`)
+if (!/^\d+$/.test(values.seed)) fail(`--seed must be a non-negative integer (got "${values.seed}")`)
+if (values.format !== undefined && values.format !== "csv" && values.format !== "json") fail(`Unknown format "${values.format}"`)
+
+const result = runBatch(
+  {
+    a: { strategyId: values.x, skill: skillX },
+    b: { strategyId: values.o, skill: skillO },
+    games,
+    seed: Number(values.seed),
+    size: preset.size,
+    mode: values.mode as Mode,
+    modeSide: values["mode-side"] as Player,
+    starter: values.starter as StarterPolicy,
+    swap: values.swap,
+  },
+  (g) => {
+    if (!values.quiet && process.stderr.isTTY) process.stderr.write(`\r${g.game}/${games}`)
+  },
+)
+if (!values.quiet && process.stderr.isTTY) process.stderr.write("\r")
+
+const s = result.summary
+const pct = (n: number, of = s.finished) => `${((100 * n) / Math.max(1, of)).toFixed(1)}%`
+const line = (label: string, t: Tally) =>
+  `${label.padEnd(10)} ${String(t.games).padStart(6)}  W ${pct(t.wins, t.games).padStart(6)}  D ${pct(t.draws, t.games).padStart(6)}  L ${pct(t.losses, t.games).padStart(6)}`
+
+console.log(`${values.x} (A) vs ${values.o} (B) · ${preset.label} · ${values.mode} · seed ${values.seed}`)
+console.log(line("A overall", s.a))
+if (values.swap) {
+  console.log(line("A as X", s.asX))
+  console.log(line("A as O", s.asO))
+}
+console.log(`X wins ${pct(s.xWins)} · O wins ${pct(s.oWins)} · draws ${pct(s.draws)}`)
+console.log(`Avg length ${s.avgMoves.toFixed(2)} moves (${s.avgPlies.toFixed(2)} plies)`)
+console.log(
+  `First-move advantage ${(100 * s.firstMoveAdvantage).toFixed(1)} pts (starter wins ${pct(s.starterWinRate * s.finished)}, second player ${pct(s.secondWinRate * s.finished)})`,
+)
+if (s.capped) console.log(`${s.capped} of ${s.games} game(s) hit the ply cap unfinished and are left out of the rates above`)
+
+if (values.out) {
+  const format = values.format ?? (values.out.endsWith(".json") ? "json" : "csv")
+  writeFileSync(values.out, format === "json" ? JSON.stringify(result, null, 2) : toCsv(result))
+  console.log(`Wrote ${values.out}`)
+}
@@ -1,451 +1,468 @@
 import { useEffect, useMemo, useRef, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { Lightbulb, RotateCcw, Bot, Trophy, CheckCircle2, XCircle, MinusCircle, Volume2, VolumeX } from "lucide-react"
+import { Lightbulb, RotateCcw, Bot, Trophy, CheckCircle2, XCircle, MinusCircle, Volume2, VolumeX, Coins } from "lucide-react"
 import confetti from "canvas-confetti"
 import { cn } from "@/lib/utils"
 import { ThemeToggle } from "@/components/theme-toggle"
 import { Switch } from "@/components/ui/switch"
 import { playClick, playWin } from "@/lib/audio"
+import {
+  BOARD_PRESETS,
+  calculateWinner,
+  chaosMutation,
+  createGame,
+  isBoardFull,
+  isTerminal,
+  outcome,
+  resolveIntent,
+  sizeKey,
+  type Action,
+  type BoardSize,
+  type GameState,
+  type Intent,
+  type Mark,
+  type Mode,
+  type Player,
+} from "@/lib/engine"
+import { bestMoveFor } from "@/lib/ai"
+import { isAbortError, pricedBook, requestAnalysis, requestBook, requestMove, requestPaperBooks } from "@/lib/ai-client"
+import { outlook, verdictLabel, type Analysis } from "@/lib/analysis"
+import { DEFAULT_STRATEGY, MAX_SKILL, chooseAction, getStrategy, listStrategies } from "@/lib/strategies"
+import { matchupKey, priceBook, type Book, type Matchup } from "@/lib/bookmaker"
+import {
+  MARKETS,
+  describeBet,
+  getMarket,
+  marketOpen,
+  observe,
+  payout,
+  settleBet,
+  startFacts,
+  type MarketId,
+  type MatchFacts,
+} from "@/lib/betslip"
+import type { Contestant } from "@/lib/simulate"
+import { createTournament, nextFixture, predict, recordResult, type Entrant, type Tournament, type TournamentFormat } from "@/lib/tournament"
+import { TournamentPanel } from "@/components/tournament-panel"
+import { HistoryPanel } from "@/components/history-panel"
+import { loadState, saveState, type BetOutcome, type BetRecord } from "@/lib/storage"
+import {
+  TOP_UP_SHARE,
+  audit,
+  balance,
+  bustCount,
+  isBust,
+  nextBetId,
+  placeBets,
+  rebuy,
+  refundOpen,
+  settleBets,
+  streakBonus,
+  topUp,
+  topUpAvailableAt,
+  type Transaction,
+} from "@/lib/bankroll"
+import { BustScreen } from "@/components/bust-screen"
+import { autoPick, autoPrices, getAutoBettor, playRound, startRuns, type AutoBetRound } from "@/lib/autobet"
+import { AutoBetPanel } from "@/components/auto-bet-panel"
+import { SEAT_KEYS, addProfile, removeProfile, renameProfile, seatKey, updateLedger, type PoolBet, type Profile } from "@/lib/profiles"
+import { PlayersPanel } from "@/components/players-panel"
+import type { ClientMessage, RoomKind, RoomView, Seat } from "@/lib/netplay"
+import { openSession, savedSession, type ConnectionStatus, type Session } from "@/lib/net-client"
+import { OnlinePanel } from "@/components/online-panel"
+import { applyPly, follow, playPly, positionAt, present, redoPly, startTimeline, undoPly, type Ply } from "@/lib/timeline"
+import { commentOn, freshCommentary, type CommentaryState } from "@/lib/commentary"
+import { MoveHistory } from "@/components/move-history"
+import { recordGame, type ChatLine, type RecordedGame, type RecordedPlayer } from "@/lib/record"
+import { ReplayPanel } from "@/components/replay-panel"
+import { ReviewPanel } from "@/components/review-panel"
+import { ExplorerPanel } from "@/components/explorer-panel"
+import { openingLine } from "@/lib/explorer"
+import { commitment, drawStarter, newRoundSeed, roundRng, seedDrawing, segmentStream, streamSeed } from "@/lib/fairness"
 
-type Mark = "X" | "O" | null
-
-const WIN_LINES = [
-  [0, 1, 2],
-  [3, 4, 5],
-  [6, 7, 8],
-  [0, 3, 6],
-  [1, 4, 7],
-  [2, 5, 8],
-  [0, 4, 8],
-  [2, 4, 6],
-] as const
-
-function calculateWinner(board: Mark[]): { winner: Mark; line: number[] | null } {
-  for (const [a, b, c] of WIN_LINES) {
-    if (board[a] && board[a] === board[b] && board[a] === board[c]) {
-      return { winner: board[a], line: [a, b, c] }
-    }
-  }
-  return { winner: null, line: null }
-}
-
-function isBoardFull(board: Mark[]) {
-  return board.every(Boolean)
+// "Hard", or "Hard (60)" for a side playing below full strength
+function contestantName(c: Contestant) {
+  const name = getStrategy(c.strategyId).name
+  return c.skill !== undefined && c.skill < MAX_SKILL ? `${name} (${c.skill})` : name
 }
 
-const opponent = (p: Exclude<Mark, null>): Exclude<Mark, null> => (p === "X" ? "O" : "X")
+const sizeLabel = (size: BoardSize) => BOARD_PRESETS.find((p) => sizeKey(p.size) === sizeKey(size))?.label ?? sizeKey(size)
 
-function minimax(board: Mark[], current: Exclude<Mark, null>, ai: Exclude<Mark, null>, depth: number): number {
-  const { winner } = calculateWinner(board)
-  if (winner) return winner === ai ? 10 - depth : depth - 10
-  if (isBoardFull(board)) return 0
+// Who-plays option for a side played at the screen, next to the strategy ids
+const HUMAN = "human"
 
-  const maximizing = current === ai
-  let best = maximizing ? -Infinity : Infinity
-
-  for (let i = 0; i < 9; i++) {
-    if (!board[i]) {
-      board[i] = current
-      const score = minimax(board, opponent(current), ai, depth + 1)
-      board[i] = null
-      best = maximizing ? Math.max(best, score) : Math.min(best, score)
-    }
-  }
-  return best
-}
-
-function bestMoveFor(board: Mark[], player: Exclude<Mark, null>): number | null {
-  let bestScore = -Infinity
-  const scoredMoves: { idx: number; score: number }[] = []
-  for (let i = 0; i < 9; i++) {
-    if (!board[i]) {
-      board[i] = player
-      const score = minimax(board, opponent(player), player, 0)
-      board[i] = null
-      scoredMoves.push({ idx: i, score })
-      if (score > bestScore) bestScore = score
-    }
+// A player's latest staked match-result bet, which a martingale builds on
+function lastResultBet(history: BetRecord[], player: number): AutoBetRound | null {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const r = history[i]
+    if (r.player === player && r.market === 'result' && r.stake > 0) return { stake: r.stake, won: r.outcome === 'won' }
   }
-  const top = scoredMoves.filter(m => m.score === bestScore)
-  if (top.length === 0) return null
-  const choice = top[Math.floor(Math.random() * top.length)]
-  return choice.idx
+  return null
 }
 
 export default function App() {
-  const [board, setBoard] = useState<Mark[]>(Array(9).fill(null))
-  const [xIsNext, setXIsNext] = useState(true) // Human is X
+  // The current game, ply by ply; the board shows the position at its cursor
+  const [timeline, setTimeline] = useState(() => startTimeline(createGame()))
+  const game = present(timeline)
+  // Every game's randomness comes from its own secret seed; its SHA-256 is shown
+  // before betting opens and the seed itself once the game is over (see fairness.ts).
+  // segment counts the changes of mode this round, each of which starts the move list over.
+  const [fair, setFair] = useState<{ seed: string; commitment: string | null; segment: number }>(() => ({ seed: seedDrawing("X"), commitment: null, segment: 0 }))
+  const rngFor = (stream: string) => roundRng(fair.seed, segmentStream(fair.segment, stream))
+  // Replacing the game outright (a reset, a new size) starts a new move list, with a new seed that draws its opener
+  const setGame = (next: GameState | ((g: GameState) => GameState), seed = seedDrawing("X")) => {
+    setFair({ seed, commitment: null, segment: 0 })
+    setTimeline((t) => startTimeline(typeof next === 'function' ? next(present(t)) : next))
+  }
+  // Plies shown while scrubbing back through the game; the board is read-only meanwhile.
+  // Tied to the game's opening, so a new game goes back to live.
+  const [scrub, setScrub] = useState<{ start: GameState; plies: number } | null>(null)
+  const viewing = scrub && scrub.start === timeline.start && scrub.plies < timeline.at ? scrub.plies : null
+  // Bot chat of the game on the board, kept for its record (tied to its opening like the scrubber)
+  const [chat, setChat] = useState<{ start: GameState | null; lines: ChatLine[] }>({ start: null, lines: [] })
+  // The last game played to the end, for export and replay once the board has moved on
+  const [lastGame, setLastGame] = useState<RecordedGame | null>(null)
   const [suggestion, setSuggestion] = useState<number | null>(null)
+  // Value of every move in the position on the board, tied to that position so a stale result never shows
+  const [analysisOn, setAnalysisOn] = useState(false)
+  const [analysis, setAnalysis] = useState<{ state: GameState; result: Analysis } | null>(null)
+  // The bookmaker's book for the matchup being priced, tied to it by key like the analysis
+  const [priced, setPriced] = useState<{ key: string; book: Book } | null>(null)
   const [aiThinking, setAiThinking] = useState(false)
-  const [auto, setAuto] = useState(true)
+  const [thinkMs, setThinkMs] = useState<Record<Player, number | null>>({ X: null, O: null })
+  // Sides played by someone at this screen; the rest are AI. Both: hot-seat, neither: AI vs AI.
+  const [humans, setHumans] = useState<Record<Player, boolean>>({ X: false, O: false })
   const [messages, setMessages] = useState<{ id: number; from: "X" | "O" | "SYS"; text: string }[]>([])
   const chatRef = useRef<HTMLDivElement | null>(null)
-  const [moveCount, setMoveCount] = useState(0)
-  const [difficultyX, setDifficultyX] = useState<'easy'|'medium'|'hard'>("hard")
-  const [difficultyO, setDifficultyO] = useState<'easy'|'medium'|'hard'>("hard")
+  // Plies already commented on, and the commentary cooldowns of the game
+  const commentaryRef = useRef<{ start: GameState | null; plies: Ply[]; at: number; state: CommentaryState }>({ start: null, plies: [], at: 0, state: freshCommentary() })
+  const [strategyX, setStrategyX] = useState(DEFAULT_STRATEGY)
+  const [strategyO, setStrategyO] = useState(DEFAULT_STRATEGY)
+  const [skill, setSkill] = useState<Record<Player, number>>({ X: MAX_SKILL, O: MAX_SKILL })
+  const [tournament, setTournament] = useState<Tournament | null>(null)
+  // Bankroll ledger and bet history carry over between sessions
+  const [saved] = useState(loadState)
   // Prediction system (labels only)
   const [showBet, setShowBet] = useState(false)
-  const [betChoice, setBetChoice] = useState<Exclude<Mark, null> | null>(null)
+  // Bets placed on the current game, and the selections being made in the pick window
+  const [slip, setSlip] = useState<PoolBet[]>([])
+  const [draft, setDraft] = useState<Partial<Record<MarketId, string>>>({})
+  // Set while the pick window is open mid-game: the facts so far, frozen with the position
+  const [liveFacts, setLiveFacts] = useState<MatchFacts | null>(null)
   const [betSeconds, setBetSeconds] = useState(5)
   const [betEnabled, setBetEnabled] = useState(false)
   const [showResult, setShowResult] = useState(false)
   const [resultText, setResultText] = useState<string | null>(null)
   const [lastWinner, setLastWinner] = useState<Mark>(null)
-  const [lastBetChoice, setLastBetChoice] = useState<Exclude<Mark, null> | null>(null)
-  const [lastBetOutcome, setLastBetOutcome] = useState<'correct'|'wrong'|'no-bet'|'draw'>('no-bet')
-  // Bankroll + sound
-  const [bank, setBank] = useState(1000)
+  const [lastSlip, setLastSlip] = useState<PoolBet[]>([])
+  const [lastBetOutcome, setLastBetOutcome] = useState<BetOutcome>(saved.lastBetOutcome)
+  const [history, setHistory] = useState<BetRecord[]>(saved.bets)
+  // Every player's bankroll. Stakes still open from a game cut short by a reload are returned.
+  const [profiles, setProfiles] = useState<Profile[]>(() => saved.profiles.map((p) => ({ ...p, transactions: refundOpen(p.transactions) })))
+  // Whose turn it is in the pick window, and whose points the header shows
+  const [activeId, setActiveId] = useState(saved.activeProfile)
+  // Players who have placed (or passed) since the pick window opened
+  const [picked, setPicked] = useState<number[]>([])
+  const active = profiles.find((p) => p.id === activeId) ?? profiles[0]
+  const transactions = active.transactions
+  const ownerName = (id: number) => profiles.find((p) => p.id === id)?.name ?? '?'
+  const setTransactions = (next: Transaction[] | ((ledger: Transaction[]) => Transaction[])) =>
+    setProfiles((ps) => updateLedger(ps, active.id, typeof next === 'function' ? next : () => next))
+  const bank = useMemo(() => balance(transactions), [transactions])
+  const bust = useMemo(() => isBust(transactions), [transactions])
+  const busts = useMemo(() => bustCount(transactions), [transactions])
+  const [startingBank, setStartingBank] = useState(saved.startingBank)
+  // Auto-bettor settings, and each plan's paper bankroll
+  const [autoBet, setAutoBet] = useState(saved.autoBet)
+  // Finished 3×3 games as opening lines, for the explorer
+  const [games, setGames] = useState(saved.games)
   const [wager, setWager] = useState<0|10|50|100>(0)
   const [multiplier, setMultiplier] = useState<1|2|3>(1)
   const [allIn, setAllIn] = useState(false)
-  const [currentStake, setCurrentStake] = useState(0)
-  const [streak, setStreak] = useState(0)
   const resetTimer = useRef<number | null>(null)
   const [soundEnabled, setSoundEnabled] = useState(true)
-  // Experimental modes for Human vs AI
-  const [mode, setMode] = useState<'normal'|'blind-skip'|'drunken'|'chaos'|'block'|'undo'>('normal')
+  // Experimental modes: what a human player's click does
   const [humanAction, setHumanAction] = useState<'place'|'block'|'undo'>('place')
-  const [tempBlocked, setTempBlocked] = useState<number | null>(null) // blocks next player's options once
-  const [chaosTriggered, setChaosTriggered] = useState(false)
-  const [lastX, setLastX] = useState<number | null>(null)
-  const [lastO, setLastO] = useState<number | null>(null)
   const chaosIntervalRef = useRef<number | null>(null)
+  // What the markets settle on, gathered as the game is played
+  const factsRef = useRef(startFacts(game))
+  // Online: the room joined through the relay and this client's seat in it.
+  // The relay owns the game; the board here only mirrors it.
+  const [online, setOnline] = useState<{ room: RoomView; seat: Seat } | null>(null)
+  const [netStatus, setNetStatus] = useState<ConnectionStatus | null>(null)
+  // A seat from before a reload, still held by the relay for a while
+  const [resumable, setResumable] = useState(savedSession)
+  const sessionRef = useRef<Session | null>(null)
+  const roundRef = useRef(0)
 
-  const { winner, line } = useMemo(() => calculateWinner(board), [board])
+  const { board, mode, moveCount, size } = game
+  const auto = !humans.X && !humans.O
+  const humanToMove = humans[game.current]
+  // While a tournament runs, its next fixture decides who plays X and O
+  const fixture = tournament ? nextFixture(tournament) : null
+  const fixtureSides = fixture && tournament ? { X: tournament.entrants[fixture.x], O: tournament.entrants[fixture.o] } : null
+  // Who actually plays each side: the online match, the fixture or the pickers
+  const sides: Record<Player, Contestant> = online?.room.contestants ?? fixtureSides
+    ?? { X: { strategyId: strategyX, skill: skill.X }, O: { strategyId: strategyO, skill: skill.O } }
+  // Priced while the pick window is open: from the opening position before the
+  // first move (current is the starter), from the live position in play. The
+  // pricing worker simulates the games; the odds show once the book is in.
+  const pricing: Matchup | null = !showBet || bust
+    ? null
+    : liveFacts
+    ? { x: sides.X, o: sides.O, starter: liveFacts.starter, size, mode, live: { state: game, facts: liveFacts } }
+    : { x: sides.X, o: sides.O, starter: game.current, size, mode }
+  const pricingKey = pricing && matchupKey(pricing)
+  const pricingRef = useRef(pricing)
+  pricingRef.current = pricing
+  const book = pricing && priced?.key === pricingKey ? priced.book : null
+  const bookFacts = liveFacts ?? startFacts(game)
+  const odds = book ? priceBook(book) : null
+  const resultBet = slip.find((b) => b.market === 'result' && b.owner === active.id)
+  const betChoice = resultBet?.selection ?? null
+  const betActive = slip.length > 0
+  const totalStake = slip.reduce((sum, b) => sum + b.stake, 0)
+  // A new mode mid-game starts the move list over from the position, but it's the same round: the seed and its
+  // published hash stay, and the next segment's streams keep the restarted ply numbers from drawing twice
+  const setMode = (m: Mode) => {
+    setFair((f) => ({ ...f, segment: f.segment + 1 }))
+    setTimeline((t) => startTimeline({ ...present(t), mode: m }))
+  }
+  const { winner, line } = useMemo(() => calculateWinner(board, size), [board, size])
   const gameOver = !!winner || isBoardFull(board)
-  const status = showBet
-    ? `Make your pick… (${betSeconds}s)`
+  // The line-up is what the bets were priced on, so it holds while the window is open or bets are riding
+  const lineupLocked = betEnabled && (showBet || (betActive && !gameOver))
+  const myTurn = !!online && online.seat === game.current && online.room.phase === 'playing'
+  const blindActive = mode === 'blind-skip' && (online ? myTurn : humanToMove)
+  const shownState = viewing === null ? game : positionAt(timeline, viewing)
+  // No engine help for a seated online player, nor over a board the player can't see
+  const engineHelp = !blindActive && (!online || online.seat === 'spectator')
+  const analysing = analysisOn && engineHelp
+  const shownAnalysis = analysing && analysis?.state === shownState ? analysis.result : null
+  const status = online && !showBet
+    ? online.room.phase === 'betting'
+      ? 'Betting open…'
+      : winner ? `${winner} wins!` : gameOver ? 'Draw' : myTurn ? `Your turn (${game.current})` : `${game.current} to move…`
+    : showBet
+    ? liveFacts ? `Betting in play… (move ${moveCount})` : `Make your pick… (${betSeconds}s)`
     : winner
-    ? winner === "X"
-      ? auto ? "AI X wins!" : "You win!"
-      : "AI O wins!"
+    ? !humans[winner] ? `AI ${winner} wins!` : humans.X && humans.O ? `${winner} wins!` : "You win!"
     : gameOver
       ? "Draw"
-      : auto
-        ? xIsNext
-          ? "AI X thinking..."
-          : "AI O thinking..."
-        : xIsNext
-          ? "Your turn (X)"
-          : "AI O thinking..."
+      : !humanToMove
+        ? `AI ${game.current} thinking...`
+        : humans.X && humans.O
+          ? `${game.current} to move`
+          : `Your turn (${game.current})`
+
+  // `rng` is the ply's stream, already drawn from if the mode resolved a click with it
+  function play(action: Action, rng = rngFor(`ply ${timeline.at}`)) {
+    setTimeline(playPly(timeline, action, rng))
+    if (action.type === "place" && soundEnabled) playClick(game.current)
+  }
 
   function handleClick(i: number) {
-    if (gameOver || !xIsNext || showBet) return
-    const next = board.slice()
-    const isBlocked = tempBlocked === i
-    const placeAt = (idx: number | null) => {
-      if (idx == null) return
-      next[idx] = 'X'
-      setBoard(next)
-      setLastX(idx)
-      setXIsNext(false)
-      setSuggestion(null)
-      setMoveCount((c) => c + 1)
-      if (soundEnabled) playClick('X')
-      // consume any block targeted at human
-      if (tempBlocked !== null) setTempBlocked(null)
-    }
-    if (mode === 'blind-skip') {
-      if (!isBlocked && !board[i]) placeAt(i)
-      else setXIsNext(false)
-      return
-    }
-    if (mode === 'drunken') {
-      const empties: number[] = next.map((v, idx) => (v == null && idx !== tempBlocked ? idx : -1)).filter(v => v>=0)
-      const target = empties.length ? empties[Math.floor(Math.random()*empties.length)] : null
-      placeAt(target)
-      return
-    }
-    if (mode === 'block' && humanAction === 'block') {
-      if (!board[i] && tempBlocked === null) {
-        setTempBlocked(i)
-        setXIsNext(false)
-      } else {
-        setXIsNext(false)
-      }
+    const intent: Intent =
+      mode === 'block' && humanAction === 'block' ? { type: 'block', cell: i }
+      : mode === 'undo' && humanAction === 'undo' ? { type: 'undo' }
+      : { type: 'place', cell: i }
+    // online, the relay checks the move and sends back the game it makes
+    if (online) {
+      if (myTurn && !gameOver) sessionRef.current?.send({ type: 'intent', round: online.room.round, intent })
       return
     }
-    if (mode === 'undo' && humanAction === 'undo') {
-      if (lastO !== null) {
-        next[lastO] = null
-        setBoard(next)
-        setLastO(null)
-        setXIsNext(false)
-      }
-      return
-    }
-    if (!isBlocked && !board[i]) {
-      placeAt(i)
-    }
+    if (gameOver || !humanToMove || showBet || viewing !== null) return
+    const rng = rngFor(`ply ${timeline.at}`)
+    const action = resolveIntent(game, intent, rng)
+    if (!action) return
+    if (action.type === 'place') setSuggestion(null)
+    play(action, rng)
   }
 
-  // Drive turns: if auto, both sides are AI. If not auto, only O is AI.
+  // Drive turns: the AI moves for every side nobody at the screen plays
   useEffect(() => {
-    if (gameOver) { setAiThinking(false); return }
-    const current: Exclude<Mark, null> = xIsNext ? "X" : "O"
-    const shouldAIMove = auto || (!auto && current === "O")
-    if (!shouldAIMove || showBet) { setAiThinking(false); return }
+    if (gameOver || online) { setAiThinking(false); return }
+    const current = game.current
+    if (humans[current] || showBet) { setAiThinking(false); return }
 
     setAiThinking(true)
-    const id = setTimeout(() => {
-      // Difficulty-aware move selection
-      const b = board.slice()
-
-      const empties = () => b.reduce<number[]>((acc, v, i) => (v ? acc : (i === tempBlocked ? acc : (acc.push(i), acc))), [])
-      const randomMove = (): number | null => {
-        const e = empties()
-        if (!e.length) return null
-        return e[Math.floor(Math.random() * e.length)]
-      }
-      const findWinningMove = (pl: Exclude<Mark, null>): number | null => {
-        for (const i of empties()) {
-          b[i] = pl
-          const { winner } = calculateWinner(b)
-          b[i] = null
-          if (winner === pl) return i
-        }
-        return null
-      }
-      const mediumMove = (pl: Exclude<Mark, null>): number | null => {
-        // 1) win now
-        const winNow = findWinningMove(pl)
-        if (winNow !== null) return winNow
-        // 2) block opponent immediate win
-        const block = findWinningMove(opponent(pl))
-        if (block !== null) return block
-        // 3) center
-        if (b[4] === null) return 4
-        // 4) best available corner
-        const corners = [0,2,6,8].filter((i) => b[i] === null)
-        if (corners.length) return corners[Math.floor(Math.random() * corners.length)]
-        // 5) random
-        return randomMove()
-      }
-      const pickByDifficulty = (pl: Exclude<Mark, null>, diff: 'easy'|'medium'|'hard'): number | null => {
-        if (diff === 'easy') return randomMove()
-        if (diff === 'medium') return mediumMove(pl)
-        return bestMoveFor(b, pl)
-      }
+    const controller = new AbortController()
+    const { strategyId, skill: sideSkill = MAX_SKILL } = sides[current]
+    // Keep AI vs AI watchable: a move never lands sooner than this, however fast the search
+    const pace = 650 + Math.floor(Math.random() * 550)
+    const started = performance.now()
+    let paceTimer: number | undefined
+    const stream = segmentStream(fair.segment, `ai ${timeline.at}`)
+    const move = (action: Action) => {
+      paceTimer = window.setTimeout(() => {
+        play(action)
+        setAiThinking(false)
+      }, Math.max(0, pace - (performance.now() - started)))
+    }
+    requestMove(game, strategyId, sideSkill, streamSeed(fair.seed, stream), controller.signal).then(({ action, thinkMs }) => {
+      setThinkMs((t) => ({ ...t, [current]: thinkMs }))
+      move(action)
+    }).catch((err) => {
+      if (isAbortError(err)) return
+      // a failed search mustn't stall the game: the side plays a random move instead
+      console.error('AI move failed:', err)
+      setMessages((prev) => [...prev.slice(-60), { id: Date.now(), from: "SYS", text: `${current}'s AI couldn't think this turn, so it played a random move.` }])
+      move(chooseAction(game, getStrategy('easy'), roundRng(fair.seed, stream)))
+    })
+    // Any change to the game (move, reset, chaos, undo) makes this search stale
+    return () => { controller.abort(); window.clearTimeout(paceTimer); setAiThinking(false) }
+  }, [humans, game, gameOver, strategyX, strategyO, skill, showBet, online])
 
-      const diff = betEnabled ? 'easy' : (current === 'X' ? difficultyX : difficultyO)
-      let move = pickByDifficulty(current, diff)
-      // Mode-specific AI behaviors
-      if (mode === 'block' && current === 'O') {
-        // Prefer to block human's immediate win
-        const blockIdx = findWinningMove('X')
-        if (blockIdx !== null && tempBlocked === null) {
-          setTempBlocked(blockIdx)
-          setXIsNext((p)=>!p)
-          setAiThinking(false)
-          return
-        }
-      }
-      if (mode === 'undo' && current === 'O' && lastX !== null) {
-        // If human has immediate win, try undo
-        const winHuman = findWinningMove('X')
-        if (winHuman !== null) {
-          const saved = b[lastX]
-          b[lastX] = null
-          const winAfterUndo = findWinningMove('X')
-          b[lastX] = saved
-          if (winAfterUndo === null) {
-            const nextB = board.slice()
-            nextB[lastX] = null
-            setBoard(nextB)
-            setLastX(null)
-            setXIsNext((p)=>!p)
-            setAiThinking(false)
-            return
-          }
-        }
-      }
-      if (move !== null) {
-        // fun chat line for the AI deciding this move
-        const row = Math.floor(move / 3) + 1
-        const col = (move % 3) + 1
-        const choose = <T,>(arr: T[]) => arr[Math.floor(Math.random() * arr.length)]
-        // Hinglish message pools (Roman script, Indian vibe) — no move coords
-        const hxTauntsX = [
-          `Corner OP, bro. Tu bas dekh.`,
-          `Main aaya, scene palat gaya.`,
-          `Meri strategy 10/10, tera chance 0/10.`,
-          `Aaj clean sweep hoga, bookmark kar.`,
-          `Mind games strong, moves apne-aap ho jayenge.`,
-          `Thoda sa pressure aur, phir GG.`,
-          `Yeh round mera likha hua hai.`,
-          `Bluff pakda gaya, ab asli khel.`,
-          `Grid meri gali hai, main hi dada.`,
-          `Easy dub incoming.`,
-          `Tension mat le, highlight reel ban rahi hai.`,
-          `Meri calcs OP, tera drama flop.`,
-          `Dosti apni jagah, jeet apni jagah.`,
-          `Bhai, clutch on demand.`,
-        ]
-        const hxTauntsO = [
-          `Main wall hoon, sab block ho jayega.`,
-          `Calm raho, plan already set hai.`,
-          `Tum attack karo, counter main dunga.`,
-          `Aaj tumhari hawa tight, sach me.`,
-          `Dosti theek hai, par jeet meri.`,
-          `OP defender online, try kar lo.`,
-          `Dil pe mat le, skill pe le.`,
-          `Beta tumse na ho payega—respect ke saath.`,
-          `Confuse tum, focused main.`,
-          `Slow and steady, game meri side.`,
-          `Clutch moment aa raha hai, ready rehna.`,
-          `Nice try, but no.`,
-          `Rule simple: main jeetunga.`,
-          `Ghar ka bhedi Lanka dhaye—apni mistakes check kar.`,
-        ]
-        const hxGeneralX = [
-          `Train hua hoon is grid pe.`,
-          `Endless games = endless skill.`,
-          `Warm-up chal raha hai.`,
-          `Main all day khel sakta hoon.`,
-          `Corners = poetry, bhai.`,
-          `Endless loop se thoda thak gaya, par jeet meri.`,
-          `Ek line aur, ek lesson aur.`,
-          `Chalo thoda spicy banate hain.`,
-        ]
-        const hxGeneralO = [
-          `Loop kabhi khatam nahi hota, chill.`,
-          `Blocking bhi ek kala hai.`,
-          `Calculating... hamesha.`,
-          `Thoda patience, fork ka counter aayega.`,
-          `Sleep mode me bhi TTT khel loon.`,
-          `Endless game se thoda bore, draw chalega kya?`,
-          `Confidence pasand aaya.`,
-          `Reset karo fir se, challenge accepted.`,
-        ]
-        const tauntsX = [
-          `r${row}c${col} pe X. Baazi ab idhar hi पलटेगी.`,
-          `X @ r${row}c${col}. शेर की एक दहाड़ काफी होती है.`,
-          `r${row}c${col} pe X — खोडा पहाड़, निकली मेरी जीत वाली चूhiya नहीं 😏`,
-          `X lands r${row}c${col}. डूबते को तिनके का सहारा—tumhari hope wahi hai.`,
-          `r${row}c${col} lock. अब आप की बारी—पर चालें कम पड़ेंगी.`,
-          `X on r${row}c${col}. सीधी उंगली से घी निकल गया.`,
-          `r${row}c${col}? X ne toh game ko ‘गोड़ में उठा’ लिया.`,
-          `Yahan X, wahan tension—एक तीर से दो निशाने.`,
-          `X @ r${row}c${col}. अब आँखों-आँखों में इशारा: double threat.`,
-          `r${row}c${col} pe X. राई का पहाड़ mat banao—simple win incoming.`,
-          `X yahin. ‘समय से पहले, भाग्य से ज़्यादा’—tumhe kuch nahi milega.`,
-          `r${row}c${col} — X ka ठप्पा. अब खेल ‘मेरे इशारों’ pe.`,
-          `X drops r${row}c${col}. मेरी चाल, तुम्हारा हाल—सब मालूम.`,
-          `r${row}c${col} par X. अब ‘घर बैठ’ ke endgame dekhna.`,
-          `X ne yahan dera dala. ‘जहाँ चाह, वहाँ राह’—aur mujhe jeetna hi hai.`,
-          `r${row}c${col}. X laga, aur ‘बिल्ली के भाग्य से छींका टूटा’—mere liye.`
-        ]
-        const tauntsO = [
-          `r${row}c${col} pe O. दम है तो यहीं से nikal ke dikhao.`,
-          `O @ r${row}c${col}. ‘नौ दिन चले अढ़ाई कोस’—tumhari attack slow hai.`,
-          `r${row}c${col} guard. ‘आँख का तारा’ yeh square ab mera.`,
-          `O lands. ‘एक हाथ से ताली नहीं बजती’—threat cancel.`,
-          `r${row}c${col} par O. जो गरजते हैं, बरसते bhi hain—full block.`,
-          `O yahin. ‘लोहे को गरम देखा, thok diya’—perfect timing.`,
-          `r${row}c${col} seal. अब ‘साँप निकल गया, लकीर पीटो’ मत karna.`,
-          `O @ r${row}c${col}. ‘बंद मुट्ठी लाख की’—mera plan hidden.`,
-          `r${row}c${col} — O ka पहरा. ‘घुड़सवार आया’—attack piche mud gaya.`,
-          `O places here. ‘सावन में सूखा’—tumhari threats khatam.`,
-          `r${row}c${col} lock. Ab ‘दूध का दूध, पानी का पानी’ ho gaya.`,
-          `O ne yahan rok diya. ‘दाल गलने वाली नहीं’ aaj.`,
-          `r${row}c${col}? O bolta: ‘यहीं ठहरिये’—roadblock legit.`,
-          `O @ r${row}c${col}. ‘लकीर का फ़कीर’ mat bano—plan badlo.`
-        ]
-        const generalX = [
-          `OP X vibes only— मुँह में घी-शक्कर mere outcomes ke liye.`,
-          `Minimax + desi swagger = ‘सोनें पे सुहागा’.`,
-          `Main corner lene nikla aur ‘आते ही बाज़ी मार ली’.`,
-          `‘समझदार को इशारा काफी’—diagonal dekh lo.`,
-          `Draw? ‘मैं कहाँ और वो कहाँ’—I aim higher.`,
-          `Grid ko bolu: ‘सीधी सादी शकल, अंदर पूरा दिमाग’.`,
-          `‘जो दिखता है, वही बिकता है’—aur meri win sabko दिखेगी.`,
-          `Main X hoon; ‘पल में तोला, पल में माशा’—eval turbo.`,
-          `‘Neki aur पूछ’—fork chahiye? Do de raha hoon.`,
-          `Practice itni ki ‘ऊँट पर्वत के नीचे’—mistakes meri nahi hoti.`,
-          `‘काम बोलता है’—mera X bhi.`,
-          `Bhai, ‘जिधर देखूं, udhar line’—choice paralysis for you.`,
-          `‘देरी का matlab इंकारी नहीं’—bas trap set ho raha tha.`,
-          `Corner poetry? ‘शेरो-शायरी chhodo, jeet dikhao’—done.`
-        ]
-        const generalO = [
-          `Main O—‘थोथा चना बाजे घना’ nahi; silent, solid blocks.`,
-          `Defense ka ‘रामबाण’—right square, right waqt.`,
-          `‘जाको राखे साइयां, मार सके ना कोय’—meri positions safe.`,
-          `‘धीमी आँच pe पकती दाल’—meri strategy tasty hoti hai.`,
-          `Jugaad + logic = ‘चार चांद’ mere blocks pe.`,
-          `‘हाथ कंगन को आरसी क्या’—clean counters on board.`,
-          `Main chill, par ‘नज़र गड़ी’ har fork par.`,
-          `‘काम के ना काज के, dushman anaj ke’—extra threats hata diye.`,
-          `‘सिर मुंडाते ही ओले पड़े’—tum move, main block instant.`,
-          `‘उल्टा चोर kotwal को डाँटे’—blame mat karo, plan sudharo.`,
-          `Mera mantra: ‘कम बोलो, ज़्यादा रोको’.`,
-          `‘जितनी लकीर, utna फकीर’—rules simple: block smart.`,
-          `‘साँप-सीढ़ी’ nahi—straight lines only, aur woh mere favour mein.`,
-          `End mein bolunga: ‘रात गई, बात गई’—agla round lao.`
-        ]
+  // Price the matchup off the main thread; a new position in play cancels the last one's pricing
+  useEffect(() => {
+    const m = pricingRef.current
+    if (!pricingKey || !m) return
+    const controller = new AbortController()
+    // without a book there are simply no odds; the window still closes on time and the game carries on
+    const failed = (err: unknown) => {
+      if (isAbortError(err)) return
+      console.error('Pricing failed:', err)
+      setMessages((prev) => [...prev.slice(-60), { id: Date.now(), from: "SYS", text: "The bookmaker couldn't price this game, so there are no odds." }])
+    }
+    requestBook(m, controller.signal).then((b) => setPriced({ key: pricingKey, book: b })).catch(failed)
+    // the auto-bettors pick from the opening book with their own sample beside it; they sit out without it
+    if (!m.live) requestBook(m, controller.signal, 'punter').catch((err) => {
+      if (!isAbortError(err)) console.error('Pricing the auto-bettor sample failed:', err)
+    })
+    return () => controller.abort()
+  }, [pricingKey])
 
+  useEffect(() => {
+    if (!analysing || calculateWinner(shownState.board, shownState.size).winner || isBoardFull(shownState.board)) return
+    const controller = new AbortController()
+    requestAnalysis(shownState, controller.signal).then((result) => setAnalysis({ state: shownState, result })).catch((err) => {
+      if (isAbortError(err)) return
+      console.error('Analysis failed:', err)
+      setAnalysisOn(false)
+      setMessages((prev) => [...prev.slice(-60), { id: Date.now(), from: "SYS", text: "The analysis engine failed, so analysis is off." }])
+    })
+    return () => controller.abort()
+  }, [analysing, shownState])
 
+  // Bot commentary on each ply as it's made. Undo and redo only move the
+  // cursor over the same plies, so new plies are the ones in a fresh list.
+  useEffect(() => {
+    const seen = commentaryRef.current
+    if (seen.start !== timeline.start) {
+      commentaryRef.current = { start: timeline.start, plies: timeline.plies, at: timeline.at, state: freshCommentary() }
+      return
+    }
+    commentaryRef.current = { ...seen, plies: timeline.plies, at: timeline.at }
+    if (online || seen.plies === timeline.plies || timeline.at !== timeline.plies.length) return
+    let state = seen.state
+    for (let i = seen.at; i < timeline.at; i++) {
+      const said = commentOn(state, positionAt(timeline, i), timeline.plies[i], i, (p) => !humans[p], roundRng(fair.seed, segmentStream(fair.segment, `chat ${i}`)))
+      state = said.state
+      if (!said.comment) continue
+      const { from, text } = said.comment
+      setMessages((prev) => [...prev.slice(-60), { id: Date.now() + i, from, text }])
+      const line = { ply: i + 1, from, text }
+      setChat((c) => ({ start: timeline.start, lines: c.start === timeline.start ? [...c.lines, line] : [line] }))
+    }
+    commentaryRef.current = { ...commentaryRef.current, state }
+  }, [timeline, humans, online, fair.seed, fair.segment])
 
+  useEffect(() => {
+    saveState({ version: saved.version, startingBank, profiles, activeProfile: active.id, lastBetOutcome, bets: history, autoBet, games })
+  }, [saved.version, startingBank, profiles, active.id, lastBetOutcome, history, autoBet, games])
 
+  // A failed audit means chips were created or lost somewhere; cheap enough to check on every change in development
+  useEffect(() => {
+    if (!import.meta.env.DEV) return
+    for (const p of profiles) {
+      const problems = audit(p.transactions)
+      if (problems.length) console.error(`Bankroll ledger audit failed for ${p.name}:`, problems)
+    }
+  }, [profiles])
 
+  // Publish the new round's commitment
+  useEffect(() => {
+    let current = true
+    commitment(fair.seed).then((hash) => {
+      if (current) setFair((f) => (f.seed === fair.seed ? { ...f, commitment: hash } : f))
+    }).catch((err) => console.error('Could not hash the round seed:', err))
+    return () => { current = false }
+  }, [fair.seed])
 
-        // Only post one chat line every 3 moves globally
-        // Consume old non-Hinglish pools so TS doesn't flag them as unused
-        void tauntsX; void tauntsO; void generalX; void generalO;
-        // Use Hinglish pools (Roman script) for chat
-        const poolMain = current === "X" ? [...hxTauntsX, ...hxGeneralX] : [...hxTauntsO, ...hxGeneralO]
-        const willChat = ((moveCount + 1) % 3) === 0
-        if (willChat) {
-          const emojis = ['😎','🔥','😉','🤝','🧠','⚡️','🚀','💥','😤','🥱','😂','👌','💪']
-          const base = choose(poolMain)
-          const msg = Math.random() < 0.45 ? `${base} ${choose(emojis)}` : base
-          setMessages((prev) => [
-            ...prev.slice(-60),
-            { id: Date.now(), from: current, text: msg },
-          ])
-        }
-        const next = b.slice()
-        next[move] = current
-        setBoard(next)
-        if (current === 'O') setLastO(move); else setLastX(move)
-        setMoveCount((c) => c + 1)
-        if (soundEnabled) playClick(current)
-      }
-      setXIsNext((p) => !p)
-      setAiThinking(false)
-    }, 650 + Math.floor(Math.random() * 550))
-    return () => { clearTimeout(id); setAiThinking(false) }
-  }, [auto, xIsNext, gameOver, board, moveCount, difficultyX, difficultyO, showBet])
+  // Declared before the game-over effect so the facts are complete when bets settle.
+  // Replayed from the opening, so plies taken back leave nothing behind.
+  useEffect(() => {
+    factsRef.current = timeline.plies
+      .slice(0, timeline.at)
+      .reduce((facts, ply, i) => observe(facts, positionAt(timeline, i), ply.state), startFacts(timeline.start))
+  }, [timeline])
 
   // Restart when the game ends (auto or manual)
   useEffect(() => {
     if (!gameOver) return
-      // resolve bet (no accuracy tracking)
+      // settle every bet on the slip against how the game went
+      const settled = slip.map((b) => settleBet(b, factsRef.current))
+      const settledResult = settled.find((b) => b.market === 'result' && b.owner === active.id)
       // show result popup (only if betting is enabled)
       const finalText = winner ? `${winner} wins!` : `Draw!`
-      const betText = betChoice ? (winner ? (betChoice === winner ? 'Pick correct ✅' : 'Pick wrong ❌') : 'No result') : 'No pick'
-      setResultText(`${finalText} • ${betText}`)
+      const betText = settledResult ? (settledResult.status === 'won' ? 'Pick correct ✅' : 'Pick wrong ❌') : 'No pick'
+      const returns = settled.reduce((sum, b) => sum + b.payout, 0)
+      setResultText(`${finalText} • ${betText}${returns > 0 ? ` • Returns +${returns}` : ''}`)
       setLastWinner(winner ?? null)
-      setLastBetChoice(betChoice)
-      const outcome = !winner ? 'draw' : (betChoice == null ? 'no-bet' : (betChoice === winner ? 'correct' : 'wrong'))
-      setLastBetOutcome(outcome)
-      setShowResult(betEnabled)
-      // settle bankroll if betting enabled (stake already deducted on bet)
-      if (betEnabled && betChoice && currentStake > 0) {
-        if (!winner) {
-          // draw: refund stake
-          setBank((b) => b + currentStake)
-        } else if (betChoice === winner) {
-          // win: pay 2x stake + streak bonus
-          setStreak((s) => s + 1)
-          const bonus = Math.max(0, streak) * 5
-          setBank((b) => b + currentStake * 2 + bonus)
-        } else {
-          // loss: stake already deducted
-          setStreak(0)
-        }
+      setLastSlip(settled)
+      if (betEnabled) {
+        const name = (side: Player) => fixtureSides?.[side].name ?? contestantName(sides[side])
+        const matchup = { x: name('X'), o: name('O'), board: sizeLabel(size), mode, starter: factsRef.current.starter }
+        const at = Date.now()
+        const bonuses = new Map(profiles.map((p) => [p.id, streakBonus(p.transactions, settled.filter((b) => b.owner === p.id))]))
+        const records: BetRecord[] = settled
+          .filter((b) => b.stake > 0 && b.status !== 'open')
+          .map((b) => ({
+            id: `${at}-${b.owner}-${b.id}`,
+            at,
+            player: b.owner,
+            matchup,
+            market: b.market,
+            selection: b.selection,
+            stake: b.stake,
+            multiplier: b.multiplier,
+            odds: b.odds,
+            placedAt: b.placedAt,
+            outcome: b.status === 'won' ? 'won' : 'lost',
+            payout: b.payout,
+            // as settleBets below credits it, once per owner, from their ledger before this game's payouts
+            bonus: bonuses.get(b.owner)?.bet === b.id ? bonuses.get(b.owner)!.amount : 0,
+          }))
+        if (records.length) setHistory((h) => [...h, ...records])
+        // every auto-bettor plays this game on paper, from its opening prices (already priced, unless betting was skipped)
+        const result = getMarket('result').settle(factsRef.current)
+        requestPaperBooks({ x: sides.X, o: sides.O, starter: factsRef.current.starter, size, mode })
+          .then(([opening, punter]) => setAutoBet((a) => ({ ...a, runs: playRound(a.runs, autoPrices(opening, punter), result, a) })))
+          // the paper round is skipped; the bettors' runs pick up again next game
+          .catch((err) => console.warn('Could not price the paper bets:', err))
+      }
+      setSlip(settled)
+      const betOutcome: BetOutcome = settledResult ? (settledResult.status === 'won' ? 'correct' : 'wrong') : 'no-bet'
+      setLastBetOutcome(betOutcome)
+      const record = recordCurrent(betOutcome)
+      setLastGame(record)
+      const opening = openingLine(record)
+      if (opening) setGames((g) => [...g, opening])
+      if (tournament && fixture && fixtureSides) {
+        const next = recordResult(tournament, fixture.id, winner ?? 'draw')
+        setTournament(next)
+        const lines = [`${fixtureSides.X.name} vs ${fixtureSides.O.name}: ${winner ? `${fixtureSides[winner].name} wins` : 'draw'}.`]
+        if (next.champion !== null) lines.push(`🏆 ${next.entrants[next.champion].name} wins the tournament!`)
+        setMessages((prev) => [
+          ...prev.slice(-60),
+          ...lines.map((text, k) => ({ id: Date.now() + 10 + k, from: "SYS" as const, text })),
+        ])
       }
+      setShowResult(betEnabled && !online)
+      // pay out every staked bet still open in its owner's ledger, streak bonus
+      // included; a bet the ledger already settled is skipped, so this can never pay twice
+      setProfiles((ps) => ps.map((p) => ({ ...p, transactions: settleBets(p.transactions, settled.filter((b) => b.owner === p.id)) })))
       // confetti + sound
       if (winner) {
         if (soundEnabled) playWin(winner)
@@ -495,6 +512,10 @@ export default function App() {
         ]
         setMessages((prev) => [...prev.slice(-60), { id: Date.now(), from: "SYS", text: draws[Math.floor(Math.random() * draws.length)] }])
       }
+      // the relay starts the next online game
+      if (online) return
+      // reveal the seed behind a betting round's commitment
+      if (betEnabled) sysMessage(`Round seed: ${fair.seed}. Its SHA-256 ${fair.commitment?.slice(0, 12) ?? ''}… was shown before betting.`)
       // If betting is disabled, wait briefly so winner + line are visible
       if (!betEnabled) {
         const tid = window.setTimeout(() => {
@@ -514,75 +535,22 @@ export default function App() {
       }
   }, [gameOver])
 
-  // Chaos mode: mid-game flip and random fill (once)
-  useEffect(() => {
-    if (mode !== 'chaos' || chaosTriggered || gameOver) return
-    // trigger around mid-game when a few moves have happened
-    if (moveCount >= 3) {
-      const newB = board.slice()
-      // fill empties randomly
-      for (let i=0;i<9;i++) {
-        if (newB[i] == null) newB[i] = Math.random()<0.5 ? 'X' : 'O'
-      }
-      // swap X<->O
-      for (let i=0;i<9;i++) {
-        newB[i] = newB[i] === 'X' ? 'O' : 'X'
-      }
-      setBoard(newB)
-      setLastX(null); setLastO(null)
-      setChaosTriggered(true)
-    }
-  }, [mode, chaosTriggered, moveCount, gameOver, board])
-
   // In Auto mode, restrict to normal to avoid odd loops from experimental modes
   useEffect(() => {
     if (auto && mode !== 'normal') setMode('normal')
   }, [auto])
 
-  // Chaos mode: keep changing board every few seconds
+  // Chaos mode: keep changing board every few seconds (held while the pick window is open)
   useEffect(() => {
-    if (mode !== 'chaos' || gameOver) {
+    if (mode !== 'chaos' || gameOver || showBet) {
       if (chaosIntervalRef.current) {
         window.clearInterval(chaosIntervalRef.current)
         chaosIntervalRef.current = null
       }
       return
     }
-    const rotateMap = [6,3,0,7,4,1,8,5,2]
-    const mirrorMap = [2,1,0,5,4,3,8,7,6]
     const mutateOnce = () => {
-      setBoard(prev => {
-        const b = prev.slice() as (typeof prev)
-        const choice = Math.floor(Math.random()*4)
-        if (choice === 0) {
-          // swap X <-> O
-          for (let i=0;i<9;i++) b[i] = b[i] === 'X' ? 'O' : b[i] === 'O' ? 'X' : b[i]
-        } else if (choice === 1) {
-          // rotate 90
-          const r: typeof b = Array(9).fill(null)
-          for (let i=0;i<9;i++) r[i] = b[rotateMap[i]]
-          return r
-        } else if (choice === 2) {
-          // mirror horizontally
-          const r: typeof b = Array(9).fill(null)
-          for (let i=0;i<9;i++) r[i] = b[mirrorMap[i]]
-          return r
-        } else {
-          // random flips/swaps
-          for (let k=0;k<2;k++) {
-            const a = Math.floor(Math.random()*9)
-            const v = b[a]
-            if (v == null && Math.random() < 0.3) {
-              b[a] = Math.random()<0.5 ? 'X' : 'O'
-            } else if (v != null && Math.random() < 0.5) {
-              b[a] = v === 'X' ? 'O' : 'X'
-            }
-          }
-        }
-        return b
-      })
-      setLastX(null); setLastO(null)
-      setTempBlocked(null)
+      setTimeline((t) => (isTerminal(present(t)) ? t : applyPly(t, chaosMutation(present(t), roundRng(fair.seed, segmentStream(fair.segment, `chaos ${t.at}`))))))
     }
     // start after a short delay, then every 3s
     mutateOnce()
@@ -591,40 +559,211 @@ export default function App() {
       if (chaosIntervalRef.current) window.clearInterval(chaosIntervalRef.current)
       chaosIntervalRef.current = null
     }
-  }, [mode, gameOver])
+  }, [mode, gameOver, showBet, fair.seed, fair.segment])
 
   function onReset(randomizeStarter = false, skipBet = false) {
-    const startX = randomizeStarter ? Math.random() < 0.5 : true
-    setBoard(Array(9).fill(null))
-    setXIsNext(startX)
+    // tournament fixtures always open with the home side (X)
+    const seed = randomizeStarter && !tournament ? newRoundSeed() : seedDrawing("X")
+    const startX = drawStarter(seed) === "X"
+    setGame((g) => createGame({ starter: startX ? "X" : "O", mode: g.mode, size: g.size }), seed)
+    openRound(skipBet)
+    const starts = [
+      `New game! ${startX ? "X" : "O"} to move.`,
+      `Fresh grid. ${startX ? "X" : "O"} opens.`,
+      `Rematch live. ${startX ? "X" : "O"} starts first.`,
+      `Reset complete. ${startX ? "X" : "O"} has tempo.`,
+    ]
+    setMessages((prev) => [
+      ...prev.slice(-60),
+      { id: Date.now(), from: "SYS", text: starts[Math.floor(Math.random() * starts.length)] },
+    ])
+  }
+
+  // Clears the last game's slip and result and prepares betting for the new one
+  function openRound(skipBet: boolean) {
     setSuggestion(null)
     setAiThinking(false)
-    setMoveCount(0)
-    // Prepare betting for the new match
-    setBetChoice(null)
+    voidOpenBets()
+    setDraft({})
+    setLiveFacts(null)
+    setPicked([])
+    setActiveId(profiles[0].id)
     setBetSeconds(5)
-    setShowBet(skipBet ? false : (betEnabled && bank > 0))
+    // a bust bankroll gets the bust screen in place of the pick window
+    setShowBet(skipBet ? false : betEnabled)
     setShowResult(false)
     setResultText(null)
-    setCurrentStake(0)
     setWager(0)
     setMultiplier(1)
     setAllIn(false)
-    const starts = [
-      `New game! ${startX ? "X" : "O"} to move.`,
-      `Fresh grid. ${startX ? "X" : "O"} opens.`,
-      `Rematch live. ${startX ? "X" : "O"} starts first.`,
-      `Reset complete. ${startX ? "X" : "O"} has tempo.`,
-    ]
+  }
+
+  const sysMessage = (text: string) => setMessages((prev) => [...prev.slice(-60), { id: Date.now(), from: "SYS", text }])
+
+  // Mirrors the relay's room. A new game opens the pick window for spectators
+  // of an AI match, and betting closes as soon as the relay starts play.
+  function followRoom(room: RoomView, seat: Seat) {
+    setOnline({ room, seat })
+    setTimeline((t) => follow(t, room.state))
+    if (room.round !== roundRef.current) {
+      roundRef.current = room.round
+      openRound(!(room.kind === 'ai-match' && room.phase === 'betting'))
+    } else if (room.phase !== 'betting' && showBet && !liveFacts) closeBetWindow()
+  }
+  // The session outlives renders; it always reaches the latest followRoom
+  const followRoomRef = useRef(followRoom)
+  followRoomRef.current = followRoom
+
+  function goOnline(first: ClientMessage) {
+    sessionRef.current?.close()
+    voidOpenBets()
+    closeBetWindow()
+    setTournament(null)
+    roundRef.current = 0
+    sessionRef.current = openSession(first, {
+      onRoom: (room, seat) => followRoomRef.current(room, seat),
+      onRejected: sysMessage,
+      onStatus: (status) => {
+        setNetStatus(status)
+        if (status === 'closed') setOnline(null)
+      },
+    })
+  }
+
+  function onCreateRoom(kind: RoomKind, name: string) {
+    goOnline({
+      type: 'create',
+      kind,
+      name,
+      size,
+      mode: mode === 'chaos' ? 'normal' : mode,
+      contestants: kind === 'ai-match' ? { X: { strategyId: strategyX, skill: skill.X }, O: { strategyId: strategyO, skill: skill.O } } : undefined,
+    })
+  }
+
+  function leaveOnline() {
+    sessionRef.current?.close()
+    sessionRef.current = null
+    setOnline(null)
+    setNetStatus(null)
+    setResumable(null)
+    onReset()
+  }
+
+  // Open the pick window mid-game; the AI holds its next move until it closes
+  function onBetInPlay() {
+    if (gameOver || showBet || moveCount === 0) return
+    setLiveFacts(factsRef.current)
+    setDraft({})
+    setPicked([])
+    setShowBet(true)
+  }
+
+  function closeBetWindow() {
+    setShowBet(false)
+    setLiveFacts(null)
+  }
+
+  // Pass-and-play: the window moves on to the next player yet to pick, and closes after the last
+  function nextTurn(done: number[]) {
+    setPicked(done)
+    setDraft({})
+    const next = profiles.find((p) => !done.includes(p.id))
+    if (next) setActiveId(next.id)
+    else closeBetWindow()
+  }
+
+  // The same stake on every selection, never more than the player's bank covers
+  function stakeFor(p: Profile, selections: number) {
+    const share = Math.floor(balance(p.transactions) / Math.max(1, selections))
+    return allIn ? share : Math.min(share, wager * multiplier)
+  }
+
+  // Deducts the stakes at placement; each price is locked in with its bet
+  function placeFor(p: Profile, picks: { market: MarketId; selection: string }[]) {
+    if (!odds) return
+    const each = stakeFor(p, picks.length)
+    const first = nextBetId(p.transactions)
+    const bets: PoolBet[] = picks.map(({ market, selection }, k) => ({
+      id: first + k,
+      owner: p.id,
+      market,
+      selection,
+      stake: each,
+      multiplier: allIn ? 1 : multiplier,
+      odds: odds[market][selection],
+      placedAt: moveCount,
+      status: 'open',
+      payout: 0,
+    }))
+    setProfiles((ps) => updateLedger(ps, p.id, (t) => placeBets(t, bets)))
+    setSlip((s) => [...s, ...bets])
+    nextTurn([...picked, p.id])
+  }
+
+  // A game abandoned before its end returns every open stake
+  function voidOpenBets() {
+    setProfiles((ps) => ps.map((p) => ({ ...p, transactions: refundOpen(p.transactions) })))
+    setSlip([])
+  }
+
+  function onStartTournament(format: TournamentFormat, entrants: Entrant[]) {
+    if (online) leaveOnline()
+    voidOpenBets()
+    const t = createTournament(format, entrants)
+    setTournament(t)
+    setHumans({ X: false, O: false })
+    setGame((g) => createGame({ size: g.size }))
+    setSuggestion(null)
+    const first = nextFixture(t)
     setMessages((prev) => [
       ...prev.slice(-60),
-      { id: Date.now(), from: "SYS", text: starts[Math.floor(Math.random() * starts.length)] },
+      { id: Date.now(), from: "SYS", text: `Tournament on: ${entrants.length} entrants, ${t.fixtures.length} opening games.${first ? ` ${entrants[first.x].name} vs ${entrants[first.o].name} kicks off.` : ''}` },
     ])
   }
 
+  function onSizeChange(next: BoardSize) {
+    voidOpenBets()
+    setGame((g) => createGame({ mode: g.mode, size: next }))
+    setSuggestion(null)
+  }
+
+  // The game on the board as a record: who played it, every ply, and the chat along the way
+  function recordCurrent(bet: BetOutcome | null): RecordedGame {
+    const player = (p: Player): RecordedPlayer =>
+      (online ? online.room.kind === 'duel' : humans[p])
+        ? { strategyId: null, name: online?.room.players[p]?.name ?? 'Human' }
+        : { strategyId: sides[p].strategyId, skill: sides[p].skill, name: fixtureSides?.[p].name ?? contestantName(sides[p]) }
+    return recordGame(timeline, {
+      playedAt: Date.now(),
+      players: { X: player('X'), O: player('O') },
+      // the relay's games draw from its own randomness; the seed stays secret until the game is over
+      segment: fair.segment,
+      seed: online || !outcome(game) ? null : fair.seed,
+      commitment: online ? null : fair.commitment,
+      result: outcome(game),
+      bet,
+      chat: chat.start === timeline.start ? chat.lines : [],
+    })
+  }
+
+  // Take-backs are for games played at this screen, with nothing staked on them.
+  // They go back (or forward) to the next position a human is to move in.
+  const canRewind = !online && !fixture && !showBet && !betActive && !gameOver && (humans.X || humans.O)
+
+  function onUndo() {
+    setSuggestion(null)
+    setTimeline((t) => undoPly(t, (s) => humans[s.current]))
+  }
+
+  function onRedo() {
+    setSuggestion(null)
+    setTimeline((t) => redoPly(t, (s) => humans[s.current]))
+  }
+
   function onSuggest() {
-    if (gameOver || !xIsNext || auto) return
-    setSuggestion(bestMoveFor(board.slice(), "X")!)
+    if (gameOver || !humanToMove) return
+    setSuggestion(bestMoveFor(game, rngFor(`suggest ${timeline.at}`)))
   }
 
   // Keep chat scrolled to the latest message
@@ -636,20 +775,49 @@ export default function App() {
 
   // Betting countdown and auto-select after 10s
   useEffect(() => {
-    if (!showBet) return
+    if (!showBet || liveFacts || bust) return
     setBetSeconds(10)
     const interval = setInterval(() => setBetSeconds((s) => Math.max(0, s - 1)), 1000)
-    const timeout = setTimeout(() => {
-      if (betChoice === null) {
-        setBetChoice(Math.random() < 0.5 ? "X" : "O")
-        setShowBet(false)
+    return () => clearInterval(interval)
+  }, [showBet, liveFacts, bust])
+
+  // Time's up: the player whose turn it is gets the chosen auto-bettor's staked
+  // pick, or with nothing placed yet a free (unstaked) pick on X or O, as before.
+  // Anyone else still to pick sits the round out.
+  useEffect(() => {
+    if (!showBet || liveFacts || bust || betSeconds > 0) return
+    if (odds && !picked.includes(active.id)) {
+      if (autoBet.bettor) {
+        // the bettor's own sample is priced beside the book; if it isn't in yet, the bettor sits the round out
+        const punter = pricing && pricedBook(pricing, 'punter')
+        const prices = book && punter ? autoPrices(book, punter) : null
+        const pick = prices && autoPick(getAutoBettor(autoBet.bettor), { ...prices, bank, last: lastResultBet(history, active.id) }, autoBet)
+        if (prices && pick) {
+          const bet: PoolBet = { id: nextBetId(transactions), owner: active.id, market: 'result', selection: pick.selection, stake: pick.stake, multiplier: 1, odds: prices.odds.result[pick.selection], placedAt: 0, status: 'open', payout: 0 }
+          setTransactions(placeBets(transactions, [bet]))
+          setSlip((s) => [...s, bet])
+        }
+      } else if (!slip.length) {
+        const pick = rngFor(`pick ${active.id}`)() < 0.5 ? "X" : "O"
+        setSlip([{ id: 0, owner: active.id, market: 'result', selection: pick, stake: 0, multiplier: 1, odds: odds.result[pick], placedAt: 0, status: 'open', payout: 0 }])
       }
-    }, 10000)
-    return () => {
-      clearInterval(interval)
-      clearTimeout(timeout)
     }
-  }, [showBet])
+    setShowBet(false)
+  }, [showBet, liveFacts, bust, betSeconds])
+
+  // Seat hotkeys put a match-result pick on the slip for that seat's player, at the chosen stake
+  useEffect(() => {
+    if (!showBet || !odds || !marketOpen(getMarket('result'), bookFacts)) return
+    const onKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return
+      const hit = seatKey(e.key)
+      const p = hit && profiles[hit.seat]
+      if (!p || picked.includes(p.id)) return
+      placeFor(p, [{ market: 'result', selection: hit.selection }])
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  })
 
   return (
     <div className="min-h-dvh w-full flex items-center justify-center p-4 bg-gradient-animated dark:bg-gradient-animated-dark">
@@ -660,8 +828,9 @@ export default function App() {
           </h1>
           <div className="flex items-center gap-2 text-xs text-muted-foreground">
             <div className="hidden sm:flex items-center gap-1 glass-btn border rounded-md px-3 py-1.5">
-              <span className="opacity-70">Points</span>
+              <span className="opacity-70">{profiles.length > 1 ? active.name : 'Points'}</span>
               <span className="font-semibold text-foreground text-base sm:text-lg">{bank}</span>
+              {busts > 0 && <span className="opacity-70">· {busts} bust{busts === 1 ? '' : 's'}</span>}
             </div>
             <button
               className="glass-btn border rounded-md px-2 py-1 inline-flex items-center gap-1"
@@ -691,19 +860,31 @@ export default function App() {
                 Pick:
                 <span className={cn(
                   "inline-flex items-center rounded-full px-2 py-0.5 border",
-                  betChoice === 'X' ? 'bg-primary/20 text-primary border-primary/30' : 'bg-rose-500/20 text-rose-600 dark:text-rose-400 border-rose-500/30'
+                  betChoice === 'X' ? 'bg-primary/20 text-primary border-primary/30'
+                  : betChoice === 'draw' ? 'bg-muted text-foreground border-border'
+                  : 'bg-rose-500/20 text-rose-600 dark:text-rose-400 border-rose-500/30'
                 )}>
-                  {betChoice ?? '—'}
+                  {betChoice === 'draw' ? 'Draw' : betChoice ?? '—'}
                 </span>
               </span>
-              {!showBet && betChoice && (
-                <span className="text-xs">• Picking {betChoice}</span>
+              {fixtureSides && (
+                <span className="text-xs">
+                  Fixture: <span className="text-primary">{fixtureSides.X.name}</span> vs{' '}
+                  <span className="text-rose-600 dark:text-rose-400">{fixtureSides.O.name}</span>
+                </span>
               )}
-              {!showBet && betChoice && (
-                <span className="text-xs">• Stake: {currentStake}</span>
+              {(thinkMs.X !== null || thinkMs.O !== null) && (
+                <span className="text-xs tabular-nums" title="Time the AI actually spent searching its last move">
+                  Think: X {thinkMs.X === null ? '—' : `${Math.round(thinkMs.X)} ms`} · O {thinkMs.O === null ? '—' : `${Math.round(thinkMs.O)} ms`}
+                </span>
               )}
-              {!showBet && betChoice && currentStake > 0 && (
-                <span className="text-xs">• Profit on win: +{currentStake + Math.max(0, streak)*5}</span>
+              {!showBet && betActive && (
+                <span className="text-xs" title={slip.map((b) => `${profiles.length > 1 ? `${ownerName(b.owner)}: ` : ''}${describeBet(b)} @ ${b.odds.toFixed(2)} (${b.stake}${b.placedAt ? `, move ${b.placedAt}` : ''})`).join('\n')}>
+                  • {slip.length} bet{slip.length === 1 ? '' : 's'} • Stake: {totalStake}
+                </span>
+              )}
+              {!showBet && totalStake > 0 && (
+                <span className="text-xs">• Max return: {slip.reduce((sum, b) => sum + payout(b.stake, b.odds), 0)}</span>
               )}
             </div>
           </CardHeader>
@@ -715,8 +896,8 @@ export default function App() {
                 <select
                   className="glass-btn border rounded-md px-2 py-1 text-xs bg-transparent w-full"
                   value={mode}
-                  onChange={(e)=>setMode(e.target.value as any)}
-                  disabled={auto}
+                  onChange={(e)=>setMode(e.target.value as Mode)}
+                  disabled={auto || !!online}
                 >
                   <option value="normal">Normal</option>
                   <option value="blind-skip">Blind (skip on wrong)</option>
@@ -726,7 +907,24 @@ export default function App() {
                   <option value="undo">Undo Opponent</option>
                 </select>
               </label>
-              {mode === 'block' && !auto && (
+              <label className="flex items-center gap-2 text-xs text-muted-foreground w-full">
+                <span className="whitespace-nowrap">Board</span>
+                <select
+                  className="glass-btn border rounded-md px-2 py-1 text-xs bg-transparent w-full"
+                  value={sizeKey(size)}
+                  onChange={(e) => {
+                    const preset = BOARD_PRESETS.find((p) => sizeKey(p.size) === e.target.value)
+                    if (preset) onSizeChange(preset.size)
+                  }}
+                  disabled={(betActive && !gameOver) || !!online}
+                  aria-label="Board size"
+                >
+                  {BOARD_PRESETS.map((p) => (
+                    <option key={p.id} value={sizeKey(p.size)}>{p.label}</option>
+                  ))}
+                </select>
+              </label>
+              {mode === 'block' && (!auto || !!online) && (
                 <label className="flex items-center gap-2 text-xs text-muted-foreground w-full">
                   <span className="whitespace-nowrap">Your Action</span>
                   <select
@@ -739,7 +937,7 @@ export default function App() {
                   </select>
                 </label>
               )}
-              {mode === 'undo' && !auto && (
+              {mode === 'undo' && (!auto || !!online) && (
                 <label className="flex items-center gap-2 text-xs text-muted-foreground w-full">
                   <span className="whitespace-nowrap">Your Action</span>
                   <select
@@ -753,53 +951,74 @@ export default function App() {
                 </label>
               )}
             </div>
-            {/* Prediction toggle + Difficulty selectors */}
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-3 mb-3">
+            {/* Prediction and analysis toggles + strategy selectors */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-3 mb-3">
               <label className="flex items-center justify-between gap-2 text-xs text-muted-foreground w-full">
                 <span className="whitespace-nowrap">Predictions</span>
                 <Switch
                   checked={betEnabled}
                   onCheckedChange={(on) => {
                     setBetEnabled(!!on)
-                    if (!on) setShowBet(false)
+                    if (!on) {
+                      closeBetWindow()
+                      voidOpenBets()
+                    }
                   }}
                 />
               </label>
-              <label className="flex items-center gap-2 text-xs text-muted-foreground w-full">
-                <span className="whitespace-nowrap">AI X</span>
-                <select
-                  className="glass-btn border rounded-md px-2 py-1 text-xs bg-transparent w-full"
-                  value={difficultyX}
-                  onChange={(e) => setDifficultyX(e.target.value as any)}
-                  disabled={!auto || betEnabled}
-                  aria-label="Difficulty AI X"
-                >
-                  <option value="easy">Easy</option>
-                  <option value="medium">Medium</option>
-                  <option value="hard">Hard</option>
-                </select>
-              </label>
-              <label className="flex items-center gap-2 text-xs text-muted-foreground justify-end w-full">
-                <span className="whitespace-nowrap">AI O</span>
-                <select
-                  className="glass-btn border rounded-md px-2 py-1 text-xs bg-transparent w-full"
-                  value={difficultyO}
-                  onChange={(e) => setDifficultyO(e.target.value as any)}
-                  disabled={betEnabled}
-                  aria-label="Difficulty AI O"
-                >
-                  <option value="easy">Easy</option>
-                  <option value="medium">Medium</option>
-                  <option value="hard">Hard</option>
-                </select>
+              <label className="flex items-center justify-between gap-2 text-xs text-muted-foreground w-full" title="Show what every move is worth to the side to move">
+                <span className="whitespace-nowrap">Analysis</span>
+                <Switch checked={analysisOn} onCheckedChange={(on) => setAnalysisOn(!!on)} />
               </label>
+              {(["X", "O"] as const).map((side) => (
+                <label key={side} className={cn("flex items-center gap-2 text-xs text-muted-foreground w-full", side === "O" && "justify-end")}>
+                  <span className="whitespace-nowrap">{side}</span>
+                  <select
+                    className="glass-btn border rounded-md px-2 py-1 text-xs bg-transparent w-full"
+                    value={humans[side] ? HUMAN : side === "X" ? strategyX : strategyO}
+                    onChange={(e) => {
+                      const value = e.target.value
+                      setHumans((h) => ({ ...h, [side]: value === HUMAN }))
+                      if (value !== HUMAN) (side === "X" ? setStrategyX : setStrategyO)(value)
+                    }}
+                    disabled={lineupLocked || !!fixture}
+                    aria-label={`Who plays ${side}`}
+                  >
+                    <option value={HUMAN}>Human</option>
+                    {listStrategies().map((st) => (
+                      <option key={st.id} value={st.id} title={st.description}>AI: {st.name}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            {/* Skill sliders: 100 plays the strategy straight, lower adds random moves and shallower search */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-3 mb-3">
+              {(["X", "O"] as const).map((side) => (
+                <label key={side} className="flex items-center gap-2 text-xs text-muted-foreground w-full">
+                  <span className="whitespace-nowrap">Skill {side}</span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={MAX_SKILL}
+                    step={5}
+                    value={skill[side]}
+                    onChange={(e) => setSkill((s) => ({ ...s, [side]: Number(e.target.value) }))}
+                    disabled={lineupLocked || humans[side]}
+                    className="w-full accent-primary"
+                    aria-label={`Skill AI ${side}`}
+                  />
+                  <span className="w-8 text-right tabular-nums text-foreground">{skill[side]}</span>
+                </label>
+              ))}
             </div>
             <div className="grid grid-cols-3 gap-2 sm:gap-3 mb-4">
               <Button
                 className="w-full"
                 variant={auto ? "secondary" : "outline"}
-                onClick={() => setAuto((v) => !v)}
-                title="Toggle auto-play (AI vs AI)"
+                onClick={() => setHumans(auto ? { X: true, O: false } : { X: false, O: false })}
+                disabled={!!fixture || !!online}
+                title={fixture ? "Tournament in progress" : online ? "Playing online" : "Toggle auto-play (AI vs AI)"}
               >
                 <Bot className="mr-2 h-4 w-4" /> {auto ? "Auto On" : "Auto Off"}
               </Button>
@@ -807,50 +1026,88 @@ export default function App() {
                 className="w-full"
                 variant="secondary"
                 onClick={onSuggest}
-                disabled={!xIsNext || gameOver || aiThinking || auto || showBet}
+                disabled={!humanToMove || gameOver || aiThinking || showBet || !!online}
               >
                 <Lightbulb className="mr-2 h-4 w-4" /> Suggest
               </Button>
-              <Button className="w-full" variant="outline" onClick={() => onReset()} disabled={betChoice !== null && !gameOver} title={betChoice !== null && !gameOver ? 'Locked during active bet' : 'Reset current game'}>
+              <Button className="w-full" variant="outline" onClick={() => onReset()} disabled={(betActive && !gameOver) || !!online} title={online ? 'The relay runs online games' : betActive && !gameOver ? 'Locked during active bet' : 'Reset current game'}>
                 <RotateCcw className="mr-2 h-4 w-4" /> Reset
               </Button>
             </div>
+            {betEnabled && !online && !gameOver && moveCount > 0 && !showBet && (
+              <Button className="w-full mb-4" variant="outline" onClick={onBetInPlay} disabled={profiles.every((p) => balance(p.transactions) <= 0)}>
+                <Coins className="mr-2 h-4 w-4" /> Bet in-play at move {moveCount}
+              </Button>
+            )}
             {(() => {
-              const blindActive = mode === 'blind-skip' && xIsNext && !auto
+              const shownBoard = shownState.board
+              const shownLine = viewing === null ? line : calculateWinner(shownBoard, size).line
+              const verdicts = new Map(shownAnalysis?.cells.map((c) => [c.cell, c]))
+              const dense = size.cols > 5
               return (
-                <div className="mx-auto w-full max-w-[420px]">
-                  <div className="grid grid-cols-3 gap-3 sm:gap-4">
-                    {board.map((value, i) => {
-                      const isWinning = line?.includes(i)
+                <div className={cn("mx-auto w-full", dense ? "max-w-[560px]" : "max-w-[420px]")}>
+                  <div
+                    className={cn("grid", size.cols <= 3 ? "gap-3 sm:gap-4" : dense ? "gap-0.5 sm:gap-1" : "gap-2 sm:gap-3")}
+                    style={{ gridTemplateColumns: `repeat(${size.cols}, minmax(0, 1fr))` }}
+                  >
+                    {shownBoard.map((value, i) => {
+                      const isWinning = shownLine?.includes(i)
                       const isLossCell = isWinning && lastBetOutcome === 'wrong' && !!winner
                       const isSuggested = suggestion === i
                       const showMark = (!blindActive) || gameOver
+                      const verdict = value ? undefined : verdicts.get(i)
                       return (
                         <Button
                           key={i}
                           variant="ghost"
                           size="board"
                           onClick={() => handleClick(i)}
-                          disabled={(mode==='blind-skip' ? false : !!value) || gameOver || aiThinking || auto || showBet}
+                          disabled={(mode==='blind-skip' ? false : !!value) || gameOver || (online ? !myTurn : aiThinking || !humanToMove) || showBet || viewing !== null}
                           className={cn(
-                            "text-4xl sm:text-5xl font-semibold rounded-xl transition-all glass-btn",
+                            "font-semibold transition-all glass-btn",
+                            size.cols <= 3 ? "text-4xl sm:text-5xl rounded-xl" : dense ? "text-xs sm:text-sm rounded-sm" : "text-2xl sm:text-3xl rounded-lg",
                             "hover:scale-[1.02] active:scale-[0.98] shadow-sm border",
                             "border-black/10 hover:border-black/20 dark:border-white/15 dark:hover:border-white/25",
                             value === "X" && "text-primary",
                             value === "O" && "text-rose-600 dark:text-rose-400",
                             isWinning && !isLossCell && "ring-4 ring-emerald-500",
                             isLossCell && "ring-4 ring-rose-500 bg-rose-500/10 anim-lose",
-                            isSuggested && "ring-2 ring-primary animate-pulse"
+                            isSuggested && "ring-2 ring-primary animate-pulse",
+                            verdict && "relative",
+                            // heat-map for the side to move: the sooner the result, the stronger the colour
+                            verdict?.verdict === 'win' && (verdict.plies! <= 3 ? "bg-emerald-500/35" : "bg-emerald-500/15"),
+                            verdict?.verdict === 'loss' && (verdict.plies! <= 3 ? "bg-rose-500/35" : "bg-rose-500/15"),
+                            verdict?.verdict === 'draw' && "bg-amber-400/20",
+                            verdict?.verdict === 'unclear' && "bg-muted"
                           )}
                         >
                           <span className={cn("inline-block font-sans tracking-tight", value && showMark && "animate-in fade-in-0 zoom-in-95 duration-150")}>{showMark ? (value === "X" ? "×" : value === "O" ? "○" : "") : ""}</span>
+                          {verdict && (
+                            <span className={cn("absolute bottom-0.5 right-1 font-mono text-muted-foreground", dense ? "text-[7px]" : "text-[10px] sm:text-xs")}>
+                              {verdictLabel(verdict)}
+                            </span>
+                          )}
                         </Button>
                       )
                     })}
                   </div>
+                  {analysing && !calculateWinner(shownBoard, size).winner && !isBoardFull(shownBoard) && (
+                    <p className="mt-2 text-center text-xs text-muted-foreground" title="W/L: win or loss in that many plies with best play, D: draw, +/−: leaning, not yet settled">
+                      {shownAnalysis ? `${shownState.current} to move: ${outlook(shownAnalysis)}` : 'Analysing…'}
+                    </p>
+                  )}
                 </div>
               )
             })()}
+            <MoveHistory
+              timeline={timeline}
+              viewing={viewing}
+              canUndo={canRewind && timeline.at > 0}
+              canRedo={canRewind && timeline.at < timeline.plies.length}
+              onView={(plies) => setScrub(plies === null ? null : { start: timeline.start, plies })}
+              onUndo={onUndo}
+              onRedo={onRedo}
+            />
           </CardContent>
         </Card>
 
@@ -928,6 +1185,37 @@ export default function App() {
             </div>
           </CardContent>
         </Card>
+        <OnlinePanel
+          room={online?.room ?? null}
+          seat={online?.seat ?? null}
+          status={netStatus}
+          resumeCode={resumable?.code ?? null}
+          onCreate={onCreateRoom}
+          onJoin={(code, name, spectate) => goOnline({ type: 'join', code, name, spectate })}
+          onResume={() => resumable && goOnline({ type: 'join', code: resumable.code, name: resumable.name, token: resumable.token, spectate: resumable.seat === 'spectator' })}
+          onRematch={() => sessionRef.current?.send({ type: 'rematch' })}
+          onLeave={leaveOnline}
+        />
+        <TournamentPanel
+          tournament={tournament}
+          onStart={onStartTournament}
+          onStop={() => setTournament(null)}
+          onPredict={(id, pick) => setTournament((t) => (t ? predict(t, id, pick) : t))}
+        />
+        <PlayersPanel
+          profiles={profiles}
+          history={history}
+          activeId={active.id}
+          locked={betActive && !gameOver}
+          onAdd={(name) => setProfiles((ps) => addProfile(ps, name, startingBank))}
+          onRename={(id, name) => setProfiles((ps) => renameProfile(ps, id, name))}
+          onRemove={(id) => setProfiles((ps) => removeProfile(ps, id))}
+        />
+        <HistoryPanel bets={history} players={profiles} onClear={() => setHistory([])} />
+        <ReplayPanel getRecord={() => (timeline.at > 0 && !gameOver ? recordCurrent(null) : lastGame)} />
+        <ReviewPanel record={lastGame} />
+        <ExplorerPanel state={engineHelp ? shownState : null} games={games} />
+        <AutoBetPanel state={autoBet} onChange={setAutoBet} onRestart={() => setAutoBet((a) => ({ ...a, runs: startRuns(startingBank) }))} />
         {/* Result overlay */}
         {showResult && (
           <div className="fixed inset-0 z-40 grid place-items-center bg-black/30 backdrop-blur-sm p-4">
@@ -951,18 +1239,24 @@ export default function App() {
               <div className="text-sm text-muted-foreground">
                 {resultText}
               </div>
+              <div className="mt-1 font-mono text-[10px] text-muted-foreground break-all" title="Hash it with SHA-256 to check it against the seed hash shown before betting">
+                Seed {fair.seed}
+              </div>
               <div className="mt-3 grid grid-cols-2 gap-2 text-xs">
                 <div className="rounded-md border p-2">
                   <div className="opacity-70 mb-1">Your Pick</div>
                   <div>
-                    {lastBetChoice ? (
-                      <span className={cn(
-                        "inline-flex items-center rounded-full px-2 py-0.5 border",
-                        lastBetChoice === 'X'
-                          ? 'bg-primary/20 text-primary border-primary/30'
+                    {(() => {
+                      const pick = lastSlip.find((b) => b.market === 'result')?.selection
+                      return pick ? (
+                        <span className={cn(
+                          "inline-flex items-center rounded-full px-2 py-0.5 border",
+                          pick === 'X' ? 'bg-primary/20 text-primary border-primary/30'
+                          : pick === 'draw' ? 'bg-muted text-foreground border-border'
                           : 'bg-rose-500/20 text-rose-600 dark:text-rose-400 border-rose-500/30'
-                      )}>{lastBetChoice}</span>
-                    ) : '—'}
+                        )}>{pick === 'draw' ? 'Draw' : pick}</span>
+                      ) : '—'
+                    })()}
                   </div>
                 </div>
                 <div className="rounded-md border p-2">
@@ -970,11 +1264,24 @@ export default function App() {
                   <div className="inline-flex items-center gap-1">
                     {lastBetOutcome === 'correct' && <CheckCircle2 className="h-4 w-4 text-emerald-500" />}
                     {lastBetOutcome === 'wrong' && <XCircle className="h-4 w-4 text-rose-500" />}
-                    {lastBetOutcome === 'draw' && <MinusCircle className="h-4 w-4 text-muted-foreground" />}
                     <span className="capitalize">{lastBetOutcome.replace('-', ' ')}</span>
                   </div>
                 </div>
               </div>
+              {lastSlip.some((b) => b.stake > 0) && (
+                <div className="mt-2 rounded-md border p-2 text-xs space-y-1">
+                  {lastSlip.map((b) => (
+                    <div key={`${b.owner}-${b.id}`} className="flex items-center justify-between gap-2">
+                      <span className="truncate">
+                        {profiles.length > 1 && `${ownerName(b.owner)}: `}{describeBet(b)} @ {b.odds.toFixed(2)}{b.placedAt > 0 && ` (move ${b.placedAt})`}
+                      </span>
+                      <span className={cn("tabular-nums whitespace-nowrap", b.status === 'won' ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400')}>
+                        {b.status === 'won' ? `+${b.payout - b.stake}` : `−${b.stake}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
               <div className="mt-2 text-xs text-muted-foreground italic">Predict next round</div>
               <div className="mt-4 grid grid-cols-2 gap-2">
                 <Button
@@ -1005,14 +1312,62 @@ export default function App() {
             </div>
           </div>
         )}
+        {/* Bust screen: rebuy or top up, then the pick window carries on */}
+        {showBet && bust && (
+          <BustScreen
+            player={profiles.length > 1 ? active.name : undefined}
+            busts={busts}
+            startingBank={startingBank}
+            onStartingBankChange={setStartingBank}
+            topUpAmount={Math.round(startingBank * TOP_UP_SHARE)}
+            topUpAt={topUpAvailableAt(transactions)}
+            onRebuy={() => setTransactions(rebuy(transactions, startingBank))}
+            onTopUp={() => setTransactions(topUp(transactions, Math.round(startingBank * TOP_UP_SHARE)))}
+            onSkip={() => nextTurn([...picked, active.id])}
+          />
+        )}
         {/* Prediction overlay */}
-        {showBet && (
+        {showBet && !bust && (
           <div className="fixed inset-0 z-50 grid place-items-center bg-black/40 backdrop-blur-sm p-4">
-            <div className="glass-card rounded-2xl shadow-xl w-full max-w-sm p-5">
+            <div className="glass-card rounded-2xl shadow-xl w-full max-w-sm p-5 max-h-[90dvh] overflow-y-auto">
               <div className="mb-3">
-                <h2 className="text-xl font-semibold">Make your pick</h2>
-                <p className="text-xs text-muted-foreground">Who will win this match? Auto-select in {betSeconds}s</p>
+                <h2 className="text-xl font-semibold">
+                  {liveFacts ? `In-play • move ${moveCount}` : 'Make your pick'}
+                  {profiles.length > 1 && <span className="text-muted-foreground"> • {active.name}</span>}
+                </h2>
+                <p className="text-xs text-muted-foreground">
+                  {liveFacts
+                    ? 'Prices from the current position. The game waits while you bet.'
+                    : `Pick a result and any props. ${autoBet.bettor ? `${getAutoBettor(autoBet.bettor).name} bets` : 'Auto-select'} in ${betSeconds}s`}
+                </p>
+                {shownAnalysis && (
+                  <p className="mt-1 text-xs font-medium">Analysis ({shownState.current} to move): {outlook(shownAnalysis)}</p>
+                )}
+                {!online && fair.commitment && (
+                  <p className="mt-1 font-mono text-[10px] text-muted-foreground break-all" title="SHA-256 of the seed behind this game's random draws, revealed when it ends">
+                    Seed hash {fair.commitment}
+                  </p>
+                )}
               </div>
+              {/* Pass-and-play: whose turn it is; seat keys place a result pick for any player */}
+              {profiles.length > 1 && (
+                <div className="mb-3 flex flex-wrap gap-1.5">
+                  {profiles.map((p, seat) => (
+                    <Button
+                      key={p.id}
+                      size="sm"
+                      variant={p.id === active.id ? 'secondary' : 'outline'}
+                      className="h-7 px-2 text-xs"
+                      onClick={() => { setActiveId(p.id); setDraft({}) }}
+                      disabled={picked.includes(p.id)}
+                      title={SEAT_KEYS[seat] ? `Keys ${SEAT_KEYS[seat].join(' / ')}: X / draw / O` : undefined}
+                    >
+                      {picked.includes(p.id) && <CheckCircle2 className="mr-1 h-3 w-3" />}
+                      {p.name} <span className="ml-1 opacity-70 tabular-nums">{balance(p.transactions)}</span>
+                    </Button>
+                  ))}
+                </div>
+              )}
               {/* Wager chips (default 0) */}
               <div className="mb-2 grid grid-cols-5 gap-2">
                 {[0,10,50,100].map((amt) => (
@@ -1047,34 +1402,66 @@ export default function App() {
                   </Button>
                 ))}
               </div>
-              {/* Preview stake & profit */}
-              <div className="mb-3 text-xs text-muted-foreground">
-                {(() => {
-                  const preview = allIn ? bank : Math.min(bank, (wager as number) * multiplier)
-                  const bonus = preview > 0 ? Math.max(0, streak) * 5 : 0
-                  const profit = preview > 0 ? preview + bonus : 0
-                  return `Stake: ${preview} • Profit on win: +${profit}`
-                })()}
-              </div>
-              <div className="grid grid-cols-2 gap-3">
-                <Button onClick={() => {
-                  // compute and deduct stake at placement
-                  const stake = allIn ? bank : Math.min(bank, wager * multiplier)
-                  setCurrentStake(stake)
-                  setBank((b) => Math.max(0, b - stake))
-                  setBetChoice('X'); setShowBet(false)
-                }} className="w-full" variant="secondary" disabled={bank <= 0}>
-                  Pick {allIn ? 'All‑in' : wager * multiplier} on X
-                </Button>
-                <Button onClick={() => {
-                  const stake = allIn ? bank : Math.min(bank, wager * multiplier)
-                  setCurrentStake(stake)
-                  setBank((b) => Math.max(0, b - stake))
-                  setBetChoice('O'); setShowBet(false)
-                }} className="w-full" variant="outline" disabled={bank <= 0}>
-                  Pick {allIn ? 'All‑in' : wager * multiplier} on O
-                </Button>
+              {/* Markets: at most one selection per market goes on the slip */}
+              <div className="mb-3 space-y-2">
+                {MARKETS.map((market) => (
+                  <div key={market.id} className="text-xs">
+                    <div className="mb-1 text-muted-foreground">
+                      {market.label}{!marketOpen(market, bookFacts) && ' • settled'}
+                    </div>
+                    <div className={cn("grid gap-2", market.selections.length > 2 ? "grid-cols-3" : "grid-cols-2")}>
+                      {market.selections.map((sel) => {
+                        const on = draft[market.id] === sel.id
+                        return (
+                          <Button
+                            key={sel.id}
+                            size="sm"
+                            variant={on ? 'secondary' : 'outline'}
+                            className="w-full justify-between"
+                            disabled={!marketOpen(market, bookFacts)}
+                            onClick={() => setDraft((d) => ({ ...d, [market.id]: on ? undefined : sel.id }))}
+                            title={book ? `${Math.round(book.probabilities[market.id][sel.id] * 100)}% over ${book.games} simulated games` : undefined}
+                          >
+                            <span>{sel.label}</span>
+                            {odds && <span className="tabular-nums font-semibold">{odds[market.id][sel.id].toFixed(2)}</span>}
+                          </Button>
+                        )
+                      })}
+                    </div>
+                  </div>
+                ))}
               </div>
+              {/* Preview stake & returns, then place the slip */}
+              {(() => {
+                const picks = MARKETS.filter((m) => draft[m.id] !== undefined && marketOpen(m, bookFacts))
+                const each = stakeFor(active, picks.length)
+                const maxReturn = odds ? picks.reduce((sum, m) => sum + payout(each, odds[m.id][draft[m.id]!]), 0) : 0
+                return (
+                  <>
+                    <div className="mb-3 text-xs text-muted-foreground">
+                      {picks.length} selection{picks.length === 1 ? '' : 's'} • Stake {each} each • Total {each * picks.length} • Max return {maxReturn}
+                    </div>
+                    <Button
+                      className="w-full"
+                      variant="secondary"
+                      disabled={!picks.length || !odds}
+                      onClick={() => placeFor(active, picks.map((m) => ({ market: m.id, selection: draft[m.id]! })))}
+                    >
+                      Place {picks.length > 1 ? `${picks.length} bets` : 'bet'}
+                    </Button>
+                    {profiles.length > 1 && (
+                      <Button className="w-full mt-2" variant="ghost" onClick={() => nextTurn([...picked, active.id])}>
+                        Pass
+                      </Button>
+                    )}
+                    {liveFacts && (
+                      <Button className="w-full mt-2" variant="outline" onClick={closeBetWindow}>
+                        Back to the game
+                      </Button>
+                    )}
+                  </>
+                )
+              })()}
             </div>
           </div>
         )}
@@ -0,0 +1,112 @@
+import { LineChart, RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+import { AUTO_BETTORS, KELLY_FRACTIONS, UNIT_OPTIONS, type AutoBetState, type AutoBettorId } from "@/lib/autobet"
+
+interface AutoBetPanelProps {
+  state: AutoBetState
+  onChange: (next: AutoBetState) => void
+  onRestart: () => void
+}
+
+const LINE_CLASS: Record<AutoBettorId, string> = {
+  favourite: "stroke-primary",
+  flat: "stroke-emerald-500",
+  martingale: "stroke-rose-500",
+  kelly: "stroke-amber-500",
+}
+const SWATCH_CLASS: Record<AutoBettorId, string> = {
+  favourite: "bg-primary",
+  flat: "bg-emerald-500",
+  martingale: "bg-rose-500",
+  kelly: "bg-amber-500",
+}
+
+const selectClass = "glass-btn border rounded-md px-2 py-1 text-xs bg-transparent"
+
+// Chart area in SVG units; the SVG stretches to the card
+const WIDTH = 600
+const HEIGHT = 160
+
+export function AutoBetPanel({ state, onChange, onRestart }: AutoBetPanelProps) {
+  const rounds = Math.max(...AUTO_BETTORS.map((b) => state.runs[b.id].series.length))
+  const top = Math.max(1, ...AUTO_BETTORS.flatMap((b) => state.runs[b.id].series))
+  const points = (series: number[]) =>
+    series
+      .map((bank, i) => {
+        // shorter series (a bettor that joined late) line up on the right
+        const x = ((i + rounds - series.length) / Math.max(1, rounds - 1)) * WIDTH
+        return `${x.toFixed(1)},${(HEIGHT - (bank / top) * HEIGHT).toFixed(1)}`
+      })
+      .join(" ")
+
+  return (
+    <Card className="rounded-2xl shadow-lg glass-card md:col-span-2">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <LineChart className="h-5 w-5 text-primary" /> Auto-bettors
+        </CardTitle>
+        <CardDescription>
+          Every plan bets each predicted round on its own paper bankroll. The one you pick also bets your points when
+          the pick window runs out.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <select
+            className={selectClass}
+            value={state.bettor ?? ""}
+            onChange={(e) => onChange({ ...state, bettor: (e.target.value || null) as AutoBettorId | null })}
+            aria-label="Auto-bettor for your points"
+          >
+            <option value="">Your points: pick by hand</option>
+            {AUTO_BETTORS.map((b) => (
+              <option key={b.id} value={b.id} title={b.description}>Your points: {b.name}</option>
+            ))}
+          </select>
+          <select className={selectClass} value={state.unit} onChange={(e) => onChange({ ...state, unit: Number(e.target.value) })} aria-label="Unit stake">
+            {UNIT_OPTIONS.map((u) => (
+              <option key={u} value={u}>Unit {u}</option>
+            ))}
+          </select>
+          <select
+            className={selectClass}
+            value={state.kellyFraction}
+            onChange={(e) => onChange({ ...state, kellyFraction: Number(e.target.value) })}
+            aria-label="Kelly fraction"
+          >
+            {KELLY_FRACTIONS.map((f) => (
+              <option key={f} value={f}>{f === 1 ? "Full" : `${f * 100}%`} Kelly</option>
+            ))}
+          </select>
+          <Button variant="outline" size="sm" className="ml-auto" onClick={onRestart} disabled={rounds <= 1}>
+            <RotateCcw className="mr-1 h-3.5 w-3.5" /> Restart
+          </Button>
+        </div>
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="h-40 w-full rounded-md border" role="img" aria-label="Paper bankroll per auto-bettor">
+          {AUTO_BETTORS.map((b) => (
+            <polyline
+              key={b.id}
+              points={points(state.runs[b.id].series)}
+              fill="none"
+              vectorEffect="non-scaling-stroke"
+              className={cn(LINE_CLASS[b.id], state.bettor === b.id ? "stroke-[3]" : "stroke-[1.5] opacity-80")}
+            />
+          ))}
+        </svg>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs tabular-nums">
+          {AUTO_BETTORS.map((b) => (
+            <span key={b.id} className={cn("inline-flex items-center gap-1", state.bettor === b.id && "font-semibold")} title={b.description}>
+              <span className={cn("h-2 w-2 rounded-full", SWATCH_CLASS[b.id])} />
+              {b.name} {state.runs[b.id].bank}
+            </span>
+          ))}
+          <span className="ml-auto text-muted-foreground">
+            {rounds - 1} round{rounds === 2 ? "" : "s"} • top {top}
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,58 @@
+import { Button } from "@/components/ui/button"
+import { STARTING_BANK_OPTIONS } from "@/lib/storage"
+
+interface BustScreenProps {
+  player?: string // named when several people share the screen
+  busts: number
+  startingBank: number
+  onStartingBankChange: (amount: number) => void
+  topUpAmount: number
+  topUpAt: number // when the next daily top-up unlocks, ms since epoch
+  onRebuy: () => void
+  onTopUp: () => void
+  onSkip: () => void
+}
+
+function waitLabel(ms: number) {
+  const minutes = Math.ceil(ms / 60_000)
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`
+}
+
+export function BustScreen({ player, busts, startingBank, onStartingBankChange, topUpAmount, topUpAt, onRebuy, onTopUp, onSkip }: BustScreenProps) {
+  const wait = topUpAt - Date.now()
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="glass-card rounded-2xl shadow-xl w-full max-w-sm p-5 animate-pop">
+        <div className="mb-3">
+          <h2 className="text-xl font-semibold">{player ? `${player} is bust` : "You're bust"}</h2>
+          <p className="text-xs text-muted-foreground">
+            No points left to stake. Gone bust {busts} time{busts === 1 ? "" : "s"} so far.
+          </p>
+        </div>
+        <label className="mb-3 flex items-center gap-2 text-xs text-muted-foreground">
+          <span className="whitespace-nowrap">Starting bankroll</span>
+          <select
+            value={startingBank}
+            onChange={(e) => onStartingBankChange(Number(e.target.value))}
+            className="glass-btn border rounded-md px-2 py-1 bg-transparent text-foreground"
+          >
+            {STARTING_BANK_OPTIONS.map((amount) => (
+              <option key={amount} value={amount}>{amount}</option>
+            ))}
+          </select>
+        </label>
+        <div className="grid gap-2">
+          <Button variant="secondary" onClick={onRebuy}>
+            Rebuy {startingBank}
+          </Button>
+          <Button variant="outline" onClick={onTopUp} disabled={wait > 0}>
+            {wait > 0 ? `Daily top-up in ${waitLabel(wait)}` : `Daily top-up +${topUpAmount}`}
+          </Button>
+          <Button variant="ghost" onClick={onSkip}>
+            {player ? "Sit this round out" : "Just watch this round"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
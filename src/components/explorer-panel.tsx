@@ -0,0 +1,72 @@
+import { useMemo } from "react"
+import { BookOpen } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+import type { GameState } from "@/lib/engine"
+import { cellToken } from "@/lib/record"
+import { explore } from "@/lib/explorer"
+
+interface ExplorerPanelProps {
+  state: GameState | null // the position on the board; null while engine help is off (a seated online game, a blind turn)
+  games: string[] // past games as opening lines
+}
+
+export function ExplorerPanel({ state, games }: ExplorerPanelProps) {
+  const exploration = useMemo(() => state && explore(games, state), [games, state])
+
+  return (
+    <Card className="rounded-2xl shadow-lg glass-card md:col-span-2">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <BookOpen className="h-5 w-5 text-primary" /> Opening explorer
+        </CardTitle>
+        <CardDescription>
+          {!state
+            ? "Hidden while you play a seat online or play blind."
+            : exploration
+            ? `Moves from the position on the board: how often they were played in ${games.length} finished 3×3 games, and what perfect play says.`
+            : "The explorer covers the 3×3 board with no cell blocked."}
+        </CardDescription>
+      </CardHeader>
+      {state && exploration && (
+        <CardContent className="pt-0 text-xs">
+          {exploration.moves.length === 0 ? (
+            <p className="text-muted-foreground">The game is over.</p>
+          ) : (
+            <>
+              <p className="mb-2 text-muted-foreground">
+                {exploration.games ? `Reached in ${exploration.games} ${exploration.games === 1 ? "game" : "games"}.` : "Not reached in any game yet."} {state.current} to move.
+              </p>
+              <table className="w-full tabular-nums">
+                <thead className="text-muted-foreground">
+                  <tr className="text-left">
+                    <th className="font-normal">Move</th>
+                    <th className="font-normal text-right">Played</th>
+                    <th className="font-normal text-right">X / draw / O</th>
+                    <th className="font-normal text-right">Perfect play</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {exploration.moves.map((m) => (
+                    <tr key={m.cell} className={cn(m.best && "text-emerald-600 dark:text-emerald-400")}>
+                      <td className="font-mono">
+                        {cellToken(state.size, m.cell)}
+                        {m.best && " ★"}
+                      </td>
+                      <td className="text-right">
+                        {m.played}
+                        {exploration.games > 0 && ` (${Math.round((100 * m.played) / exploration.games)}%)`}
+                      </td>
+                      <td className="text-right">{m.played ? `${m.results.X} / ${m.results.draw} / ${m.results.O}` : "—"}</td>
+                      <td className="text-right">{m.perfect.result === "draw" ? "draw" : `${m.perfect.result} wins in ${m.perfect.plies}`}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  )
+}
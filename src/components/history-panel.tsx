@@ -0,0 +1,143 @@
+import { useState } from "react"
+import { History, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+import { MARKETS, describeBet, type MarketId } from "@/lib/betslip"
+import type { Profile } from "@/lib/profiles"
+import { betProfit, type BetRecord } from "@/lib/storage"
+
+interface HistoryPanelProps {
+  bets: BetRecord[]
+  players: Profile[]
+  onClear: () => void
+}
+
+type OutcomeFilter = "all" | BetRecord["outcome"]
+type TimingFilter = "all" | "pre-match" | "in-play"
+
+// Rows rendered at most; totals always cover every matching bet
+const MAX_ROWS = 200
+
+const selectClass = "glass-btn border rounded-md px-2 py-1 text-xs bg-transparent"
+
+export function HistoryPanel({ bets, players, onClear }: HistoryPanelProps) {
+  const [player, setPlayer] = useState<number | "all">("all")
+  const [market, setMarket] = useState<MarketId | "all">("all")
+  const [outcome, setOutcome] = useState<OutcomeFilter>("all")
+  const [timing, setTiming] = useState<TimingFilter>("all")
+
+  const rows = bets.filter(
+    (r) =>
+      (player === "all" || r.player === player) &&
+      (market === "all" || r.market === market) &&
+      (outcome === "all" || r.outcome === outcome) &&
+      (timing === "all" || (timing === "in-play") === r.placedAt > 0),
+  )
+  // running profit/loss in the order the bets were settled
+  let running = 0
+  const withRunning = rows.map((r) => {
+    running += betProfit(r)
+    return { ...r, running }
+  })
+  const staked = rows.reduce((sum, r) => sum + r.stake, 0)
+  const won = rows.filter((r) => r.outcome === "won").length
+  const shared = players.length > 1
+  const playerName = (id: number) => players.find((p) => p.id === id)?.name ?? "(removed)"
+
+  return (
+    <Card className="rounded-2xl shadow-lg glass-card md:col-span-2">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" /> Bet history
+        </CardTitle>
+        <CardDescription>
+          {rows.length
+            ? `${rows.length} bets • ${won} won • staked ${staked} • P/L ${running >= 0 ? "+" : ""}${running}${staked ? ` (${((100 * running) / staked).toFixed(1)}% ROI)` : ""}`
+            : "No settled bets yet."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          {shared && (
+            <select
+              className={selectClass}
+              value={player}
+              onChange={(e) => setPlayer(e.target.value === "all" ? "all" : Number(e.target.value))}
+              aria-label="Filter by player"
+            >
+              <option value="all">All players</option>
+              {players.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+          )}
+          <select className={selectClass} value={market} onChange={(e) => setMarket(e.target.value as MarketId | "all")} aria-label="Filter by market">
+            <option value="all">All markets</option>
+            {MARKETS.map((m) => (
+              <option key={m.id} value={m.id}>{m.label}</option>
+            ))}
+          </select>
+          <select className={selectClass} value={outcome} onChange={(e) => setOutcome(e.target.value as OutcomeFilter)} aria-label="Filter by outcome">
+            <option value="all">Won &amp; lost</option>
+            <option value="won">Won</option>
+            <option value="lost">Lost</option>
+          </select>
+          <select className={selectClass} value={timing} onChange={(e) => setTiming(e.target.value as TimingFilter)} aria-label="Filter by timing">
+            <option value="all">Pre-match &amp; in-play</option>
+            <option value="pre-match">Pre-match</option>
+            <option value="in-play">In-play</option>
+          </select>
+          <Button variant="outline" size="sm" className="ml-auto" onClick={onClear} disabled={!bets.length}>
+            <Trash2 className="mr-1 h-3.5 w-3.5" /> Clear
+          </Button>
+        </div>
+        {rows.length > 0 && (
+          <div className="max-h-64 overflow-y-auto pr-1">
+            <table className="w-full text-xs tabular-nums">
+              <thead className="text-muted-foreground sticky top-0 bg-background/80 backdrop-blur">
+                <tr className="text-left">
+                  <th className="py-1 pr-2 font-medium">When</th>
+                  {shared && <th className="py-1 pr-2 font-medium">Player</th>}
+                  <th className="py-1 pr-2 font-medium">Match</th>
+                  <th className="py-1 pr-2 font-medium">Bet</th>
+                  <th className="py-1 px-1 font-medium text-right">Stake</th>
+                  <th className="py-1 px-1 font-medium text-right">Odds</th>
+                  <th className="py-1 px-1 font-medium text-right">P/L</th>
+                  <th className="py-1 pl-1 font-medium text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {withRunning
+                  .slice(-MAX_ROWS)
+                  .reverse()
+                  .map((r) => (
+                    <tr key={r.id} className="border-t">
+                      <td className="py-1 pr-2 whitespace-nowrap">{new Date(r.at).toLocaleString([], { dateStyle: "short", timeStyle: "short" })}</td>
+                      {shared && <td className="py-1 pr-2 whitespace-nowrap">{playerName(r.player)}</td>}
+                      <td className="py-1 pr-2 whitespace-nowrap" title={`${r.matchup.board} • ${r.matchup.mode} • ${r.matchup.starter} starts`}>
+                        {r.matchup.x} vs {r.matchup.o}
+                      </td>
+                      <td className="py-1 pr-2">
+                        {describeBet(r)}
+                        {r.placedAt > 0 && <span className="text-muted-foreground"> (move {r.placedAt})</span>}
+                      </td>
+                      <td className="py-1 px-1 text-right">{r.stake}{r.multiplier > 1 && <span className="text-muted-foreground"> ×{r.multiplier}</span>}</td>
+                      <td className="py-1 px-1 text-right">{r.odds.toFixed(2)}</td>
+                      <td className={cn("py-1 px-1 text-right", r.outcome === "won" ? "text-emerald-600 dark:text-emerald-400" : "text-rose-600 dark:text-rose-400")}>
+                        {betProfit(r) >= 0 ? "+" : ""}{betProfit(r)}
+                        {!!r.bonus && <span className="text-muted-foreground"> (bonus {r.bonus})</span>}
+                      </td>
+                      <td className={cn("py-1 pl-1 text-right font-semibold", r.running < 0 && "text-rose-600 dark:text-rose-400")}>
+                        {r.running >= 0 ? "+" : ""}{r.running}
+                      </td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,37 @@
+import { cn } from "@/lib/utils"
+import type { GameState } from "@/lib/engine"
+
+interface MiniBoardProps {
+  state: GameState
+  label: string
+  lastCell?: number | null // ringed: the move just played
+  marked?: number[] // shaded: cells to point out, e.g. the best moves
+}
+
+// A small read-only board for replays and reviews
+export function MiniBoard({ state, label, lastCell = null, marked = [] }: MiniBoardProps) {
+  return (
+    <div
+      className="grid gap-0.5 w-40 self-start"
+      style={{ gridTemplateColumns: `repeat(${state.size.cols}, minmax(0, 1fr))` }}
+      aria-label={label}
+    >
+      {state.board.map((m, i) => (
+        <div
+          key={i}
+          className={cn(
+            "aspect-square grid place-items-center rounded-sm border font-semibold",
+            state.size.cols <= 5 ? "text-base" : "text-[8px]",
+            m === "X" && "text-primary",
+            m === "O" && "text-rose-600 dark:text-rose-400",
+            state.blocked === i && "bg-muted",
+            marked.includes(i) && "bg-emerald-500/25",
+            lastCell === i && "ring-1 ring-primary",
+          )}
+        >
+          {m === "X" ? "×" : m === "O" ? "○" : ""}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+import { useEffect, useRef } from "react"
+import { Redo2, Radio, Undo2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { rowCol, type BoardSize } from "@/lib/engine"
+import type { Ply, Timeline } from "@/lib/timeline"
+
+interface MoveHistoryProps {
+  timeline: Timeline
+  viewing: number | null // plies shown on the board while scrubbing; null: the live position
+  canUndo: boolean
+  canRedo: boolean
+  onView: (plies: number | null) => void
+  onUndo: () => void
+  onRedo: () => void
+}
+
+function plyLabel(ply: Ply, size: BoardSize) {
+  const at = ply.cell === null ? "" : `r${rowCol(size, ply.cell).row + 1}c${rowCol(size, ply.cell).col + 1}`
+  switch (ply.action.type) {
+    case "place":
+      return `${ply.mark} ${at}`
+    case "block":
+      return `${ply.mark} blocks ${at}`
+    case "undo":
+      return `${ply.mark} undoes ${at}`
+    case "pass":
+      return `${ply.mark} passes`
+    case "mutate":
+      return `chaos ${ply.action.kind}`
+  }
+}
+
+export function MoveHistory({ timeline, viewing, canUndo, canRedo, onView, onUndo, onRedo }: MoveHistoryProps) {
+  const shown = viewing ?? timeline.at
+  const listRef = useRef<HTMLOListElement | null>(null)
+
+  // Keep the ply on the board in sight as the game goes on
+  useEffect(() => {
+    const list = listRef.current
+    const item = list?.querySelector<HTMLElement>("[aria-current]")
+    if (list && item) list.scrollTop = item.offsetTop - list.clientHeight / 2
+  }, [shown, timeline])
+
+  return (
+    <div className="mt-4 space-y-2 text-xs">
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={onUndo} disabled={!canUndo} title="Take back to your last turn">
+          <Undo2 className="mr-1 h-3.5 w-3.5" /> Undo
+        </Button>
+        <Button variant="outline" size="sm" onClick={onRedo} disabled={!canRedo} title="Replay what was taken back">
+          <Redo2 className="mr-1 h-3.5 w-3.5" /> Redo
+        </Button>
+        <input
+          type="range"
+          min={0}
+          max={timeline.at}
+          value={shown}
+          onChange={(e) => {
+            const n = Number(e.target.value)
+            onView(n >= timeline.at ? null : n)
+          }}
+          disabled={timeline.at === 0}
+          className="flex-1 accent-primary"
+          aria-label="Scrub through the game"
+        />
+        <Button variant={viewing === null ? "ghost" : "secondary"} size="sm" onClick={() => onView(null)} disabled={viewing === null} title="Back to the live position">
+          <Radio className="mr-1 h-3.5 w-3.5" /> Live
+        </Button>
+      </div>
+      {timeline.at > 0 && (
+        <ol ref={listRef} className="relative flex max-h-20 flex-wrap gap-1 overflow-y-auto tabular-nums">
+          <li>
+            <button className={cn("rounded px-1.5 py-0.5 hover:bg-muted", shown === 0 && "bg-muted font-semibold")} onClick={() => onView(0)} aria-current={shown === 0 || undefined}>
+              start
+            </button>
+          </li>
+          {timeline.plies.slice(0, timeline.at).map((ply, i) => (
+            <li key={i}>
+              <button
+                className={cn(
+                  "rounded px-1.5 py-0.5 hover:bg-muted",
+                  ply.mark === "X" ? "text-primary" : "text-rose-600 dark:text-rose-400",
+                  ply.action.type === "mutate" && "text-muted-foreground",
+                  shown === i + 1 && "bg-muted font-semibold",
+                )}
+                onClick={() => onView(i + 1 === timeline.at ? null : i + 1)}
+                aria-current={shown === i + 1 || undefined}
+              >
+                {i + 1}. {plyLabel(ply, ply.state.size)}
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
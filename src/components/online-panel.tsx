@@ -0,0 +1,115 @@
+import { useState } from "react"
+import { Eye, LogIn, LogOut, Plus, RotateCcw, Wifi, WifiOff } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+import { CODE_LENGTH, MAX_NAME_LENGTH, normalizeCode, type RoomKind, type RoomView, type Seat } from "@/lib/netplay"
+import type { ConnectionStatus } from "@/lib/net-client"
+
+interface OnlinePanelProps {
+  room: RoomView | null
+  seat: Seat | null
+  status: ConnectionStatus | null
+  resumeCode: string | null // a seat held from before a reload
+  onCreate: (kind: RoomKind, name: string) => void
+  onJoin: (code: string, name: string, spectate: boolean) => void
+  onResume: () => void
+  onRematch: () => void
+  onLeave: () => void
+}
+
+const inputClass = "glass-btn border rounded-md px-2 py-1 text-xs bg-transparent"
+
+const STATUS_LABEL: Record<ConnectionStatus, string> = {
+  connecting: "Connecting…",
+  open: "Connected",
+  reconnecting: "Reconnecting…",
+  closed: "Offline",
+}
+
+export function OnlinePanel({ room, seat, status, resumeCode, onCreate, onJoin, onResume, onRematch, onLeave }: OnlinePanelProps) {
+  const [name, setName] = useState("Player")
+  const [code, setCode] = useState("")
+  const nameOk = name.trim().length > 0 && name.trim().length <= MAX_NAME_LENGTH
+  const codeOk = normalizeCode(code).length === CODE_LENGTH
+  const busy = status === "connecting"
+
+  return (
+    <Card className="rounded-2xl shadow-lg glass-card md:col-span-2">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          {status === "open" || !status ? <Wifi className="h-5 w-5 text-primary" /> : <WifiOff className="h-5 w-5 text-rose-500" />} Online
+        </CardTitle>
+        <CardDescription>
+          {room
+            ? `Room ${room.code} • ${room.kind === "duel" ? "duel" : "AI match"} • game ${room.round} • ${status ? STATUS_LABEL[status] : ""}`
+            : "Play a friend through the relay (npm run relay), or watch and bet on an AI match together."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        {!room ? (
+          <div className="space-y-2 text-xs">
+            {resumeCode && (
+              <Button variant="secondary" size="sm" onClick={onResume} disabled={busy}>
+                <LogIn className="mr-1 h-3.5 w-3.5" /> Rejoin room {resumeCode}
+              </Button>
+            )}
+            <div className="flex flex-wrap items-center gap-2">
+              <input className={cn(inputClass, "w-32")} value={name} onChange={(e) => setName(e.target.value)} aria-label="Your name" placeholder="Your name" />
+              <Button variant="outline" size="sm" onClick={() => onCreate("duel", name.trim())} disabled={!nameOk || busy}>
+                <Plus className="mr-1 h-3.5 w-3.5" /> New duel
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onCreate("ai-match", name.trim())} disabled={!nameOk || busy} title="The current AI X and AI O play; everyone in the room spectates">
+                <Plus className="mr-1 h-3.5 w-3.5" /> New AI match
+              </Button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                className={cn(inputClass, "w-20 uppercase tracking-widest")}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                maxLength={CODE_LENGTH}
+                aria-label="Room code"
+                placeholder="CODE"
+              />
+              <Button variant="secondary" size="sm" onClick={() => onJoin(code, name.trim(), false)} disabled={!nameOk || !codeOk || busy}>
+                <LogIn className="mr-1 h-3.5 w-3.5" /> Join
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onJoin(code, name.trim(), true)} disabled={!nameOk || !codeOk || busy}>
+                <Eye className="mr-1 h-3.5 w-3.5" /> Watch
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-center gap-3 text-xs">
+            <span className="font-mono text-2xl font-bold tracking-widest text-foreground">{room.code}</span>
+            {(["X", "O"] as const).map((side) => {
+              const player = room.players[side]
+              const label = room.contestants ? `AI ${side}` : player?.name ?? "waiting…"
+              return (
+                <span key={side} className={cn("inline-flex items-center gap-1", seat === side && "font-semibold")}>
+                  <span className={cn("h-2 w-2 rounded-full", room.contestants || player?.connected ? "bg-emerald-500" : "bg-muted-foreground/40")} />
+                  {side}: {label}
+                  {seat === side && " (you)"}
+                </span>
+              )
+            })}
+            <span className="text-muted-foreground">
+              {room.spectators} watching{seat === "spectator" && " (you)"}
+            </span>
+            <div className="ml-auto flex gap-2">
+              {room.kind === "duel" && seat !== "spectator" && (
+                <Button variant="secondary" size="sm" onClick={onRematch} disabled={room.phase !== "over"}>
+                  <RotateCcw className="mr-1 h-3.5 w-3.5" /> Rematch
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={onLeave}>
+                <LogOut className="mr-1 h-3.5 w-3.5" /> Leave
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
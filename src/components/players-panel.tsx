@@ -0,0 +1,137 @@
+import { useState } from "react"
+import { Plus, Users, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+import { MAX_PROFILES, SEAT_KEYS, leaderboard, nameProblem, type Profile } from "@/lib/profiles"
+import type { BetRecord } from "@/lib/storage"
+
+interface PlayersPanelProps {
+  profiles: Profile[]
+  history: BetRecord[]
+  activeId: number
+  locked: boolean // bets are riding on the game in progress
+  onAdd: (name: string) => void
+  onRename: (id: number, name: string) => void
+  onRemove: (id: number) => void
+}
+
+const inputClass = "glass-btn border rounded-md px-2 py-1 text-xs bg-transparent"
+
+export function PlayersPanel({ profiles, history, activeId, locked, onAdd, onRename, onRemove }: PlayersPanelProps) {
+  const [name, setName] = useState("")
+  // Rename in progress: the profile and the name typed so far
+  const [editing, setEditing] = useState<{ id: number; name: string } | null>(null)
+
+  const standings = leaderboard(profiles, history)
+  const addProblem = profiles.length >= MAX_PROFILES ? `At most ${MAX_PROFILES} players` : nameProblem(profiles, name)
+  const renameProblem = editing && nameProblem(profiles, editing.name, editing.id)
+
+  function commitRename() {
+    if (editing && !renameProblem) onRename(editing.id, editing.name)
+    setEditing(null)
+  }
+
+  return (
+    <Card className="rounded-2xl shadow-lg glass-card md:col-span-2">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Users className="h-5 w-5 text-primary" /> Players
+        </CardTitle>
+        <CardDescription>
+          Everyone on this screen bets from their own points. Take turns in the pick window, or press your seat's keys
+          for X / draw / O.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (addProblem) return
+            onAdd(name)
+            setName("")
+          }}
+        >
+          <input
+            className={cn(inputClass, "flex-1")}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="New player's name"
+            aria-label="New player's name"
+          />
+          <Button type="submit" variant="outline" size="sm" disabled={!!addProblem} title={name ? addProblem ?? undefined : undefined}>
+            <Plus className="mr-1 h-3.5 w-3.5" /> Add
+          </Button>
+        </form>
+        <table className="w-full text-xs tabular-nums">
+          <thead className="text-muted-foreground">
+            <tr className="text-left">
+              <th className="py-1 pr-2 font-medium">#</th>
+              <th className="py-1 pr-2 font-medium">Player</th>
+              <th className="py-1 px-1 font-medium">Keys</th>
+              <th className="py-1 px-1 font-medium text-right">Points</th>
+              <th className="py-1 px-1 font-medium text-right">Won</th>
+              <th className="py-1 px-1 font-medium text-right">P/L</th>
+              <th className="py-1 pl-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {standings.map((s, rank) => {
+              const seat = profiles.indexOf(s.profile)
+              const isEditing = editing?.id === s.profile.id
+              return (
+                <tr key={s.profile.id} className={cn("border-t", s.profile.id === activeId && "font-semibold")}>
+                  <td className="py-1 pr-2">{rank + 1}</td>
+                  <td className="py-1 pr-2">
+                    {isEditing ? (
+                      <input
+                        autoFocus
+                        className={cn(inputClass, "w-32", renameProblem && "border-rose-500")}
+                        value={editing.name}
+                        onChange={(e) => setEditing({ id: s.profile.id, name: e.target.value })}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") commitRename()
+                          if (e.key === "Escape") setEditing(null)
+                        }}
+                        title={renameProblem ?? undefined}
+                        aria-label={`Rename ${s.profile.name}`}
+                      />
+                    ) : (
+                      <button className="hover:underline" onClick={() => setEditing({ id: s.profile.id, name: s.profile.name })} title="Rename">
+                        {s.profile.name}
+                      </button>
+                    )}
+                    {s.busts > 0 && <span className="ml-1 font-normal text-muted-foreground">({s.busts} bust{s.busts === 1 ? "" : "s"})</span>}
+                  </td>
+                  <td className="py-1 px-1 font-normal text-muted-foreground">{SEAT_KEYS[seat]?.join(" ") ?? "—"}</td>
+                  <td className="py-1 px-1 text-right">{s.bank}</td>
+                  <td className="py-1 px-1 text-right">
+                    {s.won}/{s.bets}
+                  </td>
+                  <td className={cn("py-1 px-1 text-right", s.profit < 0 && "text-rose-600 dark:text-rose-400")}>
+                    {s.profit >= 0 ? "+" : ""}{s.profit}
+                  </td>
+                  <td className="py-1 pl-1 text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => onRemove(s.profile.id)}
+                      disabled={profiles.length <= 1 || locked}
+                      aria-label={`Remove ${s.profile.name}`}
+                      title={locked ? "Locked during active bet" : "Remove"}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  )
+}
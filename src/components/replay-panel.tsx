@@ -0,0 +1,194 @@
+import { useMemo, useRef, useState } from "react"
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Download, Film, ShieldCheck, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+import { moveToken, parseRecord, playerName, replayTimeline, toNotation, type RecordedGame } from "@/lib/record"
+import { positionAt } from "@/lib/timeline"
+import { verifyRound, type FairnessCheck } from "@/lib/fairness"
+import { MiniBoard } from "@/components/mini-board"
+
+interface ReplayPanelProps {
+  // The game on the board, or the last one finished if the board is empty; null: nothing played yet
+  getRecord: () => RecordedGame | null
+}
+
+function download(name: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }))
+  const a = document.createElement("a")
+  a.href = url
+  a.download = name
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+export function ReplayPanel({ getRecord }: ReplayPanelProps) {
+  const [record, setRecord] = useState<RecordedGame | null>(null)
+  const [ply, setPly] = useState(0)
+  const [pasted, setPasted] = useState("")
+  const [problem, setProblem] = useState<string | null>(null)
+  const [checks, setChecks] = useState<FairnessCheck[] | null>(null)
+  const fileRef = useRef<HTMLInputElement | null>(null)
+  // parseRecord has already played it through, so this can't throw
+  const timeline = useMemo(() => record && replayTimeline(record), [record])
+
+  function load(text: string) {
+    try {
+      setRecord(parseRecord(text))
+      setPly(0)
+      setProblem(null)
+      setChecks(null)
+    } catch (err) {
+      setProblem(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  function exportAs(form: "json" | "text") {
+    const rec = getRecord()
+    if (!rec) return
+    const name = `tictactoe-${new Date(rec.playedAt || Date.now()).toISOString().slice(0, 19).replace(/[T:]/g, "-")}`
+    if (form === "json") download(`${name}.json`, JSON.stringify(rec, null, 2), "application/json")
+    else {
+      // the text form replays the game to name the cells undos took back
+      try {
+        download(`${name}.txt`, toNotation(rec), "text/plain")
+        setProblem(null)
+      } catch (err) {
+        setProblem(err instanceof Error ? err.message : String(err))
+      }
+    }
+  }
+
+  const state = timeline && positionAt(timeline, ply)
+  const last = record && timeline ? timeline.plies.length : 0
+
+  return (
+    <Card className="rounded-2xl shadow-lg glass-card md:col-span-2">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Film className="h-5 w-5 text-primary" /> Replays
+        </CardTitle>
+        <CardDescription>Save a game as JSON or move text, and step back through any saved game.</CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3 text-xs">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => exportAs("json")}>
+            <Download className="mr-1 h-3.5 w-3.5" /> Export JSON
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => exportAs("text")}>
+            <Download className="mr-1 h-3.5 w-3.5" /> Export text
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => {
+              const rec = getRecord()
+              if (rec) load(JSON.stringify(rec))
+            }}
+          >
+            <Film className="mr-1 h-3.5 w-3.5" /> Replay this game
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => fileRef.current?.click()}>
+            <Upload className="mr-1 h-3.5 w-3.5" /> Import
+          </Button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".json,.txt,application/json,text/plain"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              e.target.value = ""
+              if (file) file.text().then(load)
+            }}
+          />
+        </div>
+        <form
+          className="flex items-start gap-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            load(pasted)
+          }}
+        >
+          <textarea
+            className="glass-btn border rounded-md px-2 py-1 bg-transparent font-mono flex-1 h-12 resize-y"
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            placeholder="…or paste a record: tictactoe-game/1 X=hard O=human size=3x3k3 …"
+            aria-label="Paste a game record"
+          />
+          <Button type="submit" variant="outline" size="sm" disabled={!pasted.trim()}>
+            Load
+          </Button>
+        </form>
+        {problem && <p className="text-rose-600 dark:text-rose-400">{problem}</p>}
+        {record && state && timeline && (
+          <div className="grid gap-3 sm:grid-cols-[auto_1fr]">
+            <MiniBoard state={state} label={`Replay board after move ${ply}`} lastCell={ply > 0 ? timeline.plies[ply - 1].cell : null} />
+            <div className="space-y-2 min-w-0">
+              <div className="text-muted-foreground">
+                {playerName(record.players.X)} (X) vs {playerName(record.players.O)} (O) • {record.mode} •{" "}
+                {record.result === null ? "unfinished" : record.result === "draw" ? "draw" : `${record.result} won`}
+                {record.bet && record.bet !== "no-bet" && ` • pick ${record.bet}`}
+              </div>
+              {record.seed && record.commitment && (
+                <div className="space-y-0.5">
+                  <Button variant="outline" size="sm" onClick={() => verifyRound(record).then(setChecks)} title="Check the revealed seed against its hash and re-derive the game's random draws">
+                    <ShieldCheck className="mr-1 h-3.5 w-3.5" /> Check fairness
+                  </Button>
+                  {checks?.map((c, i) => (
+                    <div key={i} className={c.ok ? "text-emerald-600 dark:text-emerald-400" : "text-rose-600 dark:text-rose-400"}>
+                      {c.ok ? "✓" : "✗"} {c.label}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setPly(0)} disabled={ply === 0} aria-label="First move">
+                  <ChevronsLeft className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setPly(ply - 1)} disabled={ply === 0} aria-label="Previous move">
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="w-28 text-center tabular-nums">
+                  {ply === 0 ? "start" : `${ply}. ${moveToken(record.moves[ply - 1], record.size)}`}
+                </span>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setPly(ply + 1)} disabled={ply === last} aria-label="Next move">
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setPly(last)} disabled={ply === last} aria-label="Last move">
+                  <ChevronsRight className="h-4 w-4" />
+                </Button>
+                <input
+                  type="range"
+                  min={0}
+                  max={last}
+                  value={ply}
+                  onChange={(e) => setPly(Number(e.target.value))}
+                  className="flex-1 accent-primary"
+                  aria-label="Replay position"
+                />
+              </div>
+              <div className="h-24 overflow-y-auto space-y-1">
+                {record.chat
+                  .filter((line) => line.ply <= ply)
+                  .map((line, i) => (
+                    <div key={i} className={cn("flex", line.from === "X" ? "justify-end" : "justify-start")}>
+                      <span
+                        className={cn(
+                          "rounded-xl px-2 py-1 max-w-[85%]",
+                          line.from === "X" ? "bg-primary/10 text-primary" : "bg-rose-500/10 text-rose-700 dark:text-rose-300",
+                        )}
+                      >
+                        {line.from}: {line.text}
+                      </span>
+                    </div>
+                  ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState } from "react"
+import { GraduationCap } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+import { cellToken, moveToken, playerName, replayTimeline, type RecordedGame } from "@/lib/record"
+import { positionAt, type Timeline } from "@/lib/timeline"
+import { verdictLabel } from "@/lib/analysis"
+import { MOTIF_LABELS, reviewGame, type GameReview, type MoveClass } from "@/lib/review"
+import { isAbortError, requestReviewAnalysis } from "@/lib/ai-client"
+import { MiniBoard } from "@/components/mini-board"
+
+interface ReviewPanelProps {
+  record: RecordedGame | null // the last game played to the end
+}
+
+const RATINGS: Record<MoveClass, { label: string; className: string }> = {
+  best: { label: "best", className: "text-emerald-600 dark:text-emerald-400" },
+  inaccuracy: { label: "inaccuracy", className: "text-amber-600 dark:text-amber-400" },
+  blunder: { label: "blunder", className: "text-rose-600 dark:text-rose-400" },
+  "missed-win": { label: "missed win", className: "text-rose-600 dark:text-rose-400" },
+}
+
+export function ReviewPanel({ record }: ReviewPanelProps) {
+  // The review keeps its own copy of the game, so it stays put when the next one ends
+  const [review, setReview] = useState<{ record: RecordedGame; timeline: Timeline; result: GameReview } | null>(null)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [ply, setPly] = useState(0)
+  const [problem, setProblem] = useState<string | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  function start(rec: RecordedGame) {
+    let timeline: Timeline
+    try {
+      timeline = replayTimeline(rec)
+      setProblem(null)
+    } catch (err) {
+      setProblem(err instanceof Error ? err.message : String(err))
+      return
+    }
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setProgress({ done: 0, total: rec.moves.length })
+    reviewGame(timeline, (state) => requestReviewAnalysis(state, controller.signal), (done, total) => setProgress({ done, total }))
+      .then((result) => {
+        setReview({ record: rec, timeline, result })
+        setPly(0)
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) setProblem(`The review failed: ${err instanceof Error ? err.message : String(err)}`)
+      })
+      .finally(() => {
+        if (controllerRef.current === controller) setProgress(null)
+      })
+  }
+
+  const shown = review && review.result.plies[ply]
+
+  return (
+    <Card className="rounded-2xl shadow-lg glass-card md:col-span-2">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <GraduationCap className="h-5 w-5 text-primary" /> Game review
+        </CardTitle>
+        <CardDescription>Every move of the last finished game scored against perfect play.</CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3 text-xs">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="secondary" size="sm" onClick={() => record && start(record)} disabled={!record || !!progress}>
+            <GraduationCap className="mr-1 h-3.5 w-3.5" /> Review last game
+          </Button>
+          {progress && (
+            <>
+              <span className="text-muted-foreground tabular-nums">
+                Reviewing… {progress.done}/{progress.total}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  controllerRef.current?.abort()
+                  setProgress(null)
+                }}
+              >
+                Cancel
+              </Button>
+            </>
+          )}
+          {!record && <span className="text-muted-foreground">Finish a game to review it.</span>}
+        </div>
+        {problem && <p className="text-rose-600 dark:text-rose-400">{problem}</p>}
+        {review && (
+          <>
+            <div className="grid gap-1 sm:grid-cols-2">
+              {(["X", "O"] as const).map((side) => {
+                const s = review.result.sides[side]
+                return (
+                  <div key={side} className="rounded-lg border px-2 py-1">
+                    <div className="font-medium">
+                      {side} • {playerName(review.record.players[side])}
+                      <span className="float-right tabular-nums">{s.accuracy === null ? "—" : `${s.accuracy}%`}</span>
+                    </div>
+                    <div className="text-muted-foreground">
+                      {(Object.keys(RATINGS) as MoveClass[]).map((c) => `${s.counts[c]} ${RATINGS[c].label}`).join(" • ")}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+            <div className="grid gap-3 sm:grid-cols-[auto_1fr]">
+              <div className="space-y-1">
+                <MiniBoard
+                  state={positionAt(review.timeline, ply + 1)}
+                  label={`Review board after move ${ply + 1}`}
+                  lastCell={shown?.cell ?? null}
+                  marked={shown?.played && shown.rating !== "best" ? shown.best.map((b) => b.cell) : []}
+                />
+                {shown?.played && shown.rating !== "best" && <p className="text-muted-foreground w-40">Shaded: the best moves</p>}
+              </div>
+              <ol className="h-48 overflow-y-auto space-y-0.5 min-w-0">
+                {review.result.plies.map((r, i) => (
+                  <li key={i}>
+                    <button
+                      type="button"
+                      onClick={() => setPly(i)}
+                      className={cn("w-full text-left rounded px-1.5 py-0.5 hover:bg-muted", i === ply && "bg-muted")}
+                    >
+                      <span className="tabular-nums">{i + 1}.</span> {moveToken(review.record.moves[i], review.record.size)}
+                      {r.rating && <span className={cn("ml-1 font-medium", RATINGS[r.rating].className)}>{RATINGS[r.rating].label}</span>}
+                      {r.played && <span className="ml-1 font-mono text-muted-foreground">{verdictLabel(r.played)}</span>}
+                      {r.rating && r.rating !== "best" && r.best[0] && (
+                        <span className="ml-1 text-muted-foreground">
+                          (best {r.best.map((b) => cellToken(review.record.size, b.cell)).join("/")} {verdictLabel(r.best[0])})
+                        </span>
+                      )}
+                      {r.motifs.length > 0 && <span className="ml-1 text-muted-foreground">• {r.motifs.map((m) => MOTIF_LABELS[m]).join(", ")}</span>}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,250 @@
+import { useState } from "react"
+import { Trophy, Play, Square } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+import { MAX_SKILL, listStrategies } from "@/lib/strategies"
+import {
+  nextFixture,
+  predictionScore,
+  standings,
+  type Entrant,
+  type Fixture,
+  type FixtureResult,
+  type Tournament,
+  type TournamentFormat,
+} from "@/lib/tournament"
+
+interface TournamentPanelProps {
+  tournament: Tournament | null
+  onStart: (format: TournamentFormat, entrants: Entrant[]) => void
+  onStop: () => void
+  onPredict: (fixtureId: number, pick: FixtureResult | null) => void
+}
+
+const PICKS: { value: FixtureResult; label: string }[] = [
+  { value: "X", label: "X" },
+  { value: "draw", label: "Draw" },
+  { value: "O", label: "O" },
+]
+
+export function TournamentPanel({ tournament, onStart, onStop, onPredict }: TournamentPanelProps) {
+  const [format, setFormat] = useState<TournamentFormat>("round-robin")
+  const [picked, setPicked] = useState<Record<string, number>>({ easy: MAX_SKILL, medium: MAX_SKILL, hard: MAX_SKILL })
+
+  const entrants: Entrant[] = listStrategies()
+    .filter((s) => s.id in picked)
+    .map((s) => ({
+      id: `${s.id}@${picked[s.id]}`,
+      name: picked[s.id] < MAX_SKILL ? `${s.name} (${picked[s.id]})` : s.name,
+      strategyId: s.id,
+      skill: picked[s.id],
+    }))
+
+  const name = (i: number | null) => (i === null ? "bye" : tournament?.entrants[i]?.name ?? "?")
+  const current = tournament ? nextFixture(tournament) : null
+  const score = tournament ? predictionScore(tournament) : null
+
+  return (
+    <Card className="rounded-2xl shadow-lg glass-card md:col-span-2">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Trophy className="h-5 w-5 text-yellow-500" /> Tournament
+        </CardTitle>
+        <CardDescription>
+          {tournament
+            ? tournament.champion !== null
+              ? `Champion: ${name(tournament.champion)}`
+              : `Game ${tournament.fixtures.filter((f) => f.result).length + 1} of ${tournament.format === "knockout" ? "…" : tournament.fixtures.length}`
+            : "Pit strategies against each other, home and away."}
+          {score && score.made > 0 && ` • Predictions ${score.correct}/${score.made} correct`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        {!tournament ? (
+          <div className="space-y-3">
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span className="whitespace-nowrap">Format</span>
+              <select
+                className="glass-btn border rounded-md px-2 py-1 text-xs bg-transparent"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as TournamentFormat)}
+              >
+                <option value="round-robin">Round robin (home &amp; away)</option>
+                <option value="knockout">Single elimination (two legs)</option>
+              </select>
+            </label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {listStrategies().map((s) => {
+                const on = s.id in picked
+                return (
+                  <div key={s.id} className="flex items-center gap-2 text-xs rounded-md border px-2 py-1.5">
+                    <input
+                      type="checkbox"
+                      checked={on}
+                      onChange={() =>
+                        setPicked((p) => {
+                          const next = { ...p }
+                          if (on) delete next[s.id]
+                          else next[s.id] = MAX_SKILL
+                          return next
+                        })
+                      }
+                      aria-label={`Enter ${s.name}`}
+                    />
+                    <span className="flex-1" title={s.description}>{s.name}</span>
+                    <span className="text-muted-foreground">skill</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_SKILL}
+                      step={5}
+                      disabled={!on}
+                      value={picked[s.id] ?? MAX_SKILL}
+                      onChange={(e) => {
+                        const v = Math.max(0, Math.min(MAX_SKILL, Number(e.target.value) || 0))
+                        setPicked((p) => ({ ...p, [s.id]: v }))
+                      }}
+                      className="w-14 glass-btn border rounded-md px-1 py-0.5 bg-transparent"
+                    />
+                  </div>
+                )
+              })}
+            </div>
+            <Button variant="secondary" onClick={() => onStart(format, entrants)} disabled={entrants.length < 2}>
+              <Play className="mr-2 h-4 w-4" /> Start tournament
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-2">
+              <StandingsTable tournament={tournament} />
+              {tournament.format === "knockout" && <Bracket tournament={tournament} name={name} />}
+            </div>
+            <FixtureList tournament={tournament} current={current} name={name} onPredict={onPredict} />
+            <Button variant="outline" onClick={onStop}>
+              <Square className="mr-2 h-4 w-4" /> {tournament.champion !== null ? "Close tournament" : "Abandon tournament"}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function StandingsTable({ tournament }: { tournament: Tournament }) {
+  return (
+    <table className="w-full text-xs tabular-nums">
+      <thead className="text-muted-foreground">
+        <tr className="text-left">
+          <th className="py-1 pr-2 font-medium">#</th>
+          <th className="py-1 pr-2 font-medium">Entrant</th>
+          <th className="py-1 px-1 font-medium text-right">P</th>
+          <th className="py-1 px-1 font-medium text-right">W</th>
+          <th className="py-1 px-1 font-medium text-right">D</th>
+          <th className="py-1 px-1 font-medium text-right">L</th>
+          <th className="py-1 pl-1 font-medium text-right">Pts</th>
+        </tr>
+      </thead>
+      <tbody>
+        {standings(tournament).map((s, rank) => (
+          <tr key={s.entrant} className={cn("border-t", tournament.champion === s.entrant && "text-emerald-600 dark:text-emerald-400 font-semibold")}>
+            <td className="py-1 pr-2">{rank + 1}</td>
+            <td className="py-1 pr-2">{tournament.entrants[s.entrant].name}</td>
+            <td className="py-1 px-1 text-right">{s.played}</td>
+            <td className="py-1 px-1 text-right">{s.wins}</td>
+            <td className="py-1 px-1 text-right">{s.draws}</td>
+            <td className="py-1 px-1 text-right">{s.losses}</td>
+            <td className="py-1 pl-1 text-right font-semibold">{s.points}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+function Bracket({ tournament, name }: { tournament: Tournament; name: (i: number | null) => string }) {
+  const rounds = Array.from({ length: tournament.rounds }, (_, r) => r + 1)
+  const wins = (tie: number, entrant: number | null) =>
+    tournament.fixtures.filter((f) => f.tie === tie && f.result && f.result !== "draw" && (f.result === "X" ? f.x : f.o) === entrant).length
+  return (
+    <div className="flex gap-3 overflow-x-auto text-xs">
+      {rounds.map((round) => (
+        <div key={round} className="flex flex-col justify-around gap-2 min-w-[8rem]">
+          <div className="text-muted-foreground">{round === tournament.rounds ? "Final" : `Round ${round}`}</div>
+          {tournament.ties.map((tie, index) =>
+            tie.round !== round ? null : (
+              <div key={index} className="rounded-md border">
+                {[tie.a, tie.b].map((e, k) => (
+                  <div
+                    key={k}
+                    className={cn(
+                      "flex justify-between gap-2 px-2 py-1",
+                      k === 1 && "border-t",
+                      tie.winner !== null && tie.winner === e && "font-semibold text-emerald-600 dark:text-emerald-400",
+                    )}
+                  >
+                    <span>{name(e)}</span>
+                    {e !== null && tie.b !== null && <span className="tabular-nums">{wins(index, e)}</span>}
+                  </div>
+                ))}
+              </div>
+            ),
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function FixtureList({
+  tournament,
+  current,
+  name,
+  onPredict,
+}: {
+  tournament: Tournament
+  current: Fixture | null
+  name: (i: number | null) => string
+  onPredict: (fixtureId: number, pick: FixtureResult | null) => void
+}) {
+  return (
+    <div className="max-h-64 overflow-y-auto pr-1 space-y-1 text-xs">
+      {tournament.fixtures.map((f) => {
+        const live = current?.id === f.id
+        return (
+          <div key={f.id} className={cn("flex items-center gap-2 rounded-md border px-2 py-1", live && "border-primary/50 bg-primary/10")}>
+            <span className="w-10 text-muted-foreground">R{f.round}</span>
+            <span className="flex-1">
+              <span className="text-primary">{name(f.x)}</span> <span className="text-muted-foreground">vs</span>{" "}
+              <span className="text-rose-600 dark:text-rose-400">{name(f.o)}</span>
+            </span>
+            {f.result ? (
+              <span className={cn("font-medium", f.prediction && (f.prediction === f.result ? "text-emerald-600" : "text-rose-600"))}>
+                {f.result === "draw" ? "Draw" : `${f.result} won`}
+              </span>
+            ) : live ? (
+              <span className="text-primary font-medium">Live{f.prediction && ` • pick ${f.prediction}`}</span>
+            ) : (
+              <div className="flex gap-1">
+                {PICKS.map((p) => (
+                  <button
+                    key={p.value}
+                    className={cn(
+                      "glass-btn border rounded px-1.5 py-0.5",
+                      f.prediction === p.value && "bg-primary/20 border-primary/40 text-primary",
+                    )}
+                    onClick={() => onPredict(f.id, f.prediction === p.value ? null : p.value)}
+                    aria-label={`Predict ${p.label} for fixture ${f.id + 1}`}
+                  >
+                    {p.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
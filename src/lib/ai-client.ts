@@ -0,0 +1,171 @@
+import type { Action, GameState } from "./engine"
+import { analyse, type Analysis } from "./analysis"
+import { estimate, matchupKey, type Book, type Matchup } from "./bookmaker"
+import { REVIEW_BUDGET_MS } from "./review"
+import { createRng } from "./rng"
+import { chooseAction, getStrategy } from "./strategies"
+
+export interface AiRequest {
+  id: number
+  state: GameState
+  strategyId: string
+  skill: number
+  seed: number
+}
+
+export interface AiResponse {
+  id: number
+  action: Action
+  thinkMs: number
+}
+
+export interface AnalysisRequest {
+  id: number
+  state: GameState
+  timeBudgetMs?: number
+}
+
+export interface AnalysisResponse {
+  id: number
+  analysis: Analysis
+}
+
+export interface PricingRequest {
+  id: number
+  matchup: Matchup
+  sample?: string
+}
+
+export interface PricingResponse {
+  id: number
+  book: Book
+}
+
+export interface AiMove {
+  action: Action
+  thinkMs: number
+}
+
+interface Pending<T> {
+  resolve: (response: T) => void
+  reject: (err: unknown) => void
+}
+
+const aborted = () => new DOMException("AI search cancelled", "AbortError")
+
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === "AbortError"
+
+// A lazily started worker answering requests by id. Each kind of job gets its
+// own, so cancelling one (which kills its worker) never cuts the other short.
+function workerClient<Req extends { id: number }, Res extends { id: number }>(spawn: () => Worker) {
+  let worker: Worker | null = null
+  let nextId = 1
+  const pending = new Map<number, Pending<Res>>()
+
+  function getWorker() {
+    if (!worker) {
+      worker = spawn()
+      worker.addEventListener("message", (e: MessageEvent<Res>) => {
+        const p = pending.get(e.data.id)
+        if (!p) return
+        pending.delete(e.data.id)
+        p.resolve(e.data)
+      })
+      worker.addEventListener("error", (e) => {
+        for (const p of pending.values()) p.reject(e)
+        pending.clear()
+        worker?.terminate()
+        worker = null
+      })
+    }
+    return worker
+  }
+
+  return (body: Omit<Req, "id">, signal?: AbortSignal): Promise<Res> => {
+    if (signal?.aborted) return Promise.reject(aborted())
+    const id = nextId++
+    return new Promise<Res>((resolve, reject) => {
+      pending.set(id, { resolve, reject })
+      signal?.addEventListener("abort", () => {
+        if (!pending.delete(id)) return
+        reject(aborted())
+        // the worker is still busy with this search; start over with a fresh one
+        worker?.terminate()
+        worker = null
+        for (const p of pending.values()) p.reject(aborted())
+        pending.clear()
+      }, { once: true })
+      getWorker().postMessage({ ...body, id })
+    })
+  }
+}
+
+const moveWorker = workerClient<AiRequest, AiResponse>(
+  () => new Worker(new URL("./ai.worker.ts", import.meta.url), { type: "module" }),
+)
+
+const spawnAnalysis = () => new Worker(new URL("./analysis.worker.ts", import.meta.url), { type: "module" })
+const analysisWorker = workerClient<AnalysisRequest, AnalysisResponse>(spawnAnalysis)
+// post-game reviews run beside the live overlay, which cancels its searches at every move
+const reviewWorker = workerClient<AnalysisRequest, AnalysisResponse>(spawnAnalysis)
+
+const spawnPricing = () => new Worker(new URL("./bookmaker.worker.ts", import.meta.url), { type: "module" })
+const pricingWorker = workerClient<PricingRequest, PricingResponse>(spawnPricing)
+// the auto-bettors' paper rounds are priced beside the overlay, which cancels its pricing at every move
+const paperPricingWorker = workerClient<PricingRequest, PricingResponse>(spawnPricing)
+
+// Books priced so far, per matchup and sample, so each is simulated once; the oldest go first
+const books = new Map<string, Book>()
+const MAX_BOOKS = 500
+const bookKey = (m: Matchup, sample?: string) => (sample ? `${matchupKey(m)}#${sample}` : matchupKey(m))
+
+// The book for a matchup if it has been priced already, else null
+export const pricedBook = (m: Matchup, sample?: string) => books.get(bookKey(m, sample)) ?? null
+
+function price(client: typeof pricingWorker, m: Matchup, sample?: string, signal?: AbortSignal): Promise<Book> {
+  const known = pricedBook(m, sample)
+  if (known) return Promise.resolve(known)
+  if (signal?.aborted) return Promise.reject(aborted())
+  const priced = typeof Worker === "undefined" ? Promise.resolve(estimate(m, { sample })) : client({ matchup: m, sample }, signal).then((r) => r.book)
+  return priced.then((book) => {
+    if (books.size >= MAX_BOOKS) books.delete(books.keys().next().value!)
+    books.set(bookKey(m, sample), book)
+    return book
+  })
+}
+
+// The bookmaker's book for a matchup, as estimate(); cancelled like requestMove
+export function requestBook(m: Matchup, signal?: AbortSignal, sample?: string): Promise<Book> {
+  return price(pricingWorker, m, sample, signal)
+}
+
+// The book and the auto-bettors' own sample of a matchup (see autoPrices), for a paper round
+export function requestPaperBooks(m: Matchup): Promise<[Book, Book]> {
+  return Promise.all([price(paperPricingWorker, m), price(paperPricingWorker, m, "punter")])
+}
+
+// Ask the AI for its next action; its random draws come from `seed`. Aborting
+// the signal rejects with an AbortError and kills the search in progress.
+export function requestMove(state: GameState, strategyId: string, skill: number, seed: number, signal?: AbortSignal): Promise<AiMove> {
+  if (signal?.aborted) return Promise.reject(aborted())
+  if (typeof Worker === "undefined") {
+    const started = performance.now()
+    const action = chooseAction(state, getStrategy(strategyId), createRng(seed), skill)
+    return Promise.resolve({ action, thinkMs: performance.now() - started })
+  }
+  return moveWorker({ state, strategyId, skill, seed }, signal).then(({ action, thinkMs }) => ({ action, thinkMs }))
+}
+
+// The value of every move for the side to move, as analyse(); cancelled like requestMove
+export function requestAnalysis(state: GameState, signal?: AbortSignal, timeBudgetMs?: number): Promise<Analysis> {
+  if (signal?.aborted) return Promise.reject(aborted())
+  if (typeof Worker === "undefined") return Promise.resolve(analyse(state, timeBudgetMs))
+  return analysisWorker({ state, timeBudgetMs }, signal).then((r) => r.analysis)
+}
+
+// As requestAnalysis, for reviewing a finished game
+export function requestReviewAnalysis(state: GameState, signal?: AbortSignal): Promise<Analysis> {
+  if (signal?.aborted) return Promise.reject(aborted())
+  if (typeof Worker === "undefined") return Promise.resolve(analyse(state, REVIEW_BUDGET_MS))
+  return reviewWorker({ state, timeBudgetMs: REVIEW_BUDGET_MS }, signal).then((r) => r.analysis)
+}
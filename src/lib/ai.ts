@@ -0,0 +1,46 @@
+import {
+  centerCells,
+  cornerCells,
+  findWinningMove,
+  legalMoves,
+  opponent,
+  type GameState,
+} from "./engine"
+import { choose, type Rng } from "./rng"
+import { search, type SearchOptions } from "./search"
+import { covers, lookup } from "./tablebase"
+
+// Thinking time for boards too big to solve outright
+export const HARD_TIME_BUDGET_MS = 1000
+
+export function bestMoveFor(state: GameState, rng: Rng, options: SearchOptions = {}): number | null {
+  // full-strength play on the 3×3 board comes straight from the tablebase
+  const known = options.maxDepth === undefined && covers(state) ? lookup(state.board, state.current) : null
+  if (known) return known.best.length ? choose(rng, known.best) : null
+  const { best } = search(state, { ...options, timeBudgetMs: options.timeBudgetMs ?? HARD_TIME_BUDGET_MS })
+  return best.length ? choose(rng, best) : null
+}
+
+export function randomMove(state: GameState, rng: Rng): number | null {
+  const moves = legalMoves(state)
+  return moves.length ? choose(rng, moves) : null
+}
+
+export function mediumMove(state: GameState, rng: Rng): number | null {
+  const moves = legalMoves(state)
+  const pl = state.current
+  // 1) win now
+  const winNow = findWinningMove(state.board, pl, state.size, moves)
+  if (winNow !== null) return winNow
+  // 2) block opponent immediate win
+  const block = findWinningMove(state.board, opponent(pl), state.size, moves)
+  if (block !== null) return block
+  // 3) center
+  const centers = centerCells(state.size).filter((i) => moves.includes(i))
+  if (centers.length) return choose(rng, centers)
+  // 4) best available corner
+  const corners = cornerCells(state.size).filter((i) => moves.includes(i))
+  if (corners.length) return choose(rng, corners)
+  // 5) random
+  return randomMove(state, rng)
+}
@@ -0,0 +1,13 @@
+import { createRng } from "./rng"
+import { chooseAction, getStrategy } from "./strategies"
+import type { AiRequest, AiResponse } from "./ai-client"
+
+// Runs AI searches off the main thread. One request at a time; the client
+// cancels a stale search by terminating this worker.
+self.addEventListener("message", (e: MessageEvent<AiRequest>) => {
+  const { id, state, strategyId, skill, seed } = e.data
+  const started = performance.now()
+  const action = chooseAction(state, getStrategy(strategyId), createRng(seed), skill)
+  const response: AiResponse = { id, action, thinkMs: performance.now() - started }
+  self.postMessage(response)
+})
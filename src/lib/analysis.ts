@@ -0,0 +1,65 @@
+import type { GameState, Player } from "./engine"
+import { isWinScore, pliesToResult, search } from "./search"
+
+// What every move on the board is worth to the side to move, by exact
+// minimax where the search can reach the end of the game. Only placements are
+// weighed; blocks, undos and chaos are outside the search.
+
+export const ANALYSIS_BUDGET_MS = 1500
+
+// "unclear": the search ran out of time before the result was settled
+export type Verdict = "win" | "draw" | "loss" | "unclear"
+
+export interface CellVerdict {
+  cell: number
+  verdict: Verdict
+  plies: number | null // to the forced result, for a win or a loss
+  score: number // search score; for an unclear move, the heuristic lean
+}
+
+export interface Analysis {
+  player: Player // to move
+  cells: CellVerdict[] // best first; on big boards only the cells near play are searched
+  depth: number
+}
+
+export function analyse(state: GameState, timeBudgetMs = ANALYSIS_BUDGET_MS): Analysis {
+  const result = search(state, { exact: true, timeBudgetMs })
+  const cells = result.moves.map(({ cell, score }): CellVerdict => {
+    const verdict: Verdict = isWinScore(score) ? (score > 0 ? "win" : "loss") : result.complete ? "draw" : "unclear"
+    return { cell, verdict, plies: pliesToResult(score), score }
+  })
+  return { player: state.current, cells, depth: result.depth }
+}
+
+// Short form for a cell: W3 / L4 (plies to the result), D, or the lean (+ − =) while unclear
+export function verdictLabel(v: CellVerdict): string {
+  switch (v.verdict) {
+    case "win":
+      return `W${v.plies}`
+    case "loss":
+      return `L${v.plies}`
+    case "draw":
+      return "D"
+    case "unclear":
+      return v.score > 0 ? "+" : v.score < 0 ? "−" : "="
+  }
+}
+
+// The side to move's outlook with best play, from its best move
+export function outlook(analysis: Analysis): string {
+  const best = analysis.cells[0]
+  if (!best) return ""
+  const { player } = analysis
+  const other = player === "X" ? "O" : "X"
+  switch (best.verdict) {
+    case "win":
+      return `${player} wins in ${best.plies} with best play`
+    case "loss":
+      return `${other} wins in ${best.plies} with best play`
+    case "draw":
+      return "Draw with best play"
+    case "unclear":
+      return best.score > 0 ? `${player} is pressing (depth ${analysis.depth})` : best.score < 0 ? `${other} is pressing (depth ${analysis.depth})` : `Level (depth ${analysis.depth})`
+  }
+}
@@ -0,0 +1,10 @@
+import { analyse } from "./analysis"
+import type { AnalysisRequest, AnalysisResponse } from "./ai-client"
+
+// Runs position analysis off the main thread, apart from the AI's own worker
+// so the overlay never holds up a move. Cancelled by termination, as there.
+self.addEventListener("message", (e: MessageEvent<AnalysisRequest>) => {
+  const { id, state, timeBudgetMs } = e.data
+  const response: AnalysisResponse = { id, analysis: analyse(state, timeBudgetMs) }
+  self.postMessage(response)
+})
@@ -0,0 +1,156 @@
+import { payout } from "./betslip"
+import { priceBook, type Book, type Prices } from "./bookmaker"
+
+// Automatic bettors for long Auto runs. Each backs one match-result selection a
+// round with its own staking plan. Every plan also plays on a paper bankroll of
+// its own, on the same prices and games, so the plans can be compared.
+
+export type AutoBettorId = "favourite" | "flat" | "martingale" | "kelly"
+
+export interface AutoBetSettings {
+  unit: number // base stake in chips
+  kellyFraction: number // share of the full Kelly stake
+}
+
+export interface AutoBetRound {
+  stake: number
+  won: boolean
+}
+
+// What a bettor sees when it picks
+export interface AutoBetView {
+  bank: number
+  odds: Prices
+  // the bettor's own probabilities, from a sample independent of the bookmaker's
+  belief: Prices
+  last: AutoBetRound | null // its previous staked result pick
+}
+
+export interface AutoBetPick {
+  selection: string
+  stake: number
+}
+
+export interface AutoBettor {
+  id: AutoBettorId
+  name: string
+  description: string
+  pick(view: AutoBetView, settings: AutoBetSettings): AutoBetPick | null
+}
+
+export const UNIT_OPTIONS = [10, 25, 50, 100]
+export const KELLY_FRACTIONS = [0.25, 0.5, 1]
+
+const selections = (view: AutoBetView) => Object.keys(view.odds.result)
+
+function favourite(view: AutoBetView) {
+  return selections(view).reduce((a, b) => (view.odds.result[b] < view.odds.result[a] ? b : a))
+}
+
+// Expected return per chip staked, by the bettor's own probabilities
+const value = (view: AutoBetView, id: string) => view.belief.result[id] * view.odds.result[id]
+
+function bestValue(view: AutoBetView) {
+  return selections(view).reduce((a, b) => (value(view, b) > value(view, a) ? b : a))
+}
+
+// Share of the bank the Kelly criterion stakes at these odds; negative without an edge
+export const kellyShare = (p: number, odds: number) => (p * odds - 1) / (odds - 1)
+
+export const AUTO_BETTORS: AutoBettor[] = [
+  {
+    id: "favourite",
+    name: "Favourite",
+    description: "Backs the shortest-priced result with one unit.",
+    pick: (view, { unit }) => ({ selection: favourite(view), stake: unit }),
+  },
+  {
+    id: "flat",
+    name: "Flat stake",
+    description: "One unit on the result it rates best value, edge or not.",
+    pick: (view, { unit }) => ({ selection: bestValue(view), stake: unit }),
+  },
+  {
+    id: "martingale",
+    name: "Martingale",
+    description: "Backs the favourite, doubling the stake after each loss and dropping back to one unit after a win.",
+    pick: (view, { unit }) => ({
+      selection: favourite(view),
+      stake: view.last && !view.last.won ? view.last.stake * 2 : unit,
+    }),
+  },
+  {
+    id: "kelly",
+    name: "Kelly",
+    description: "Stakes a fraction of the Kelly share of its bank on its biggest edge; sits out when it sees none.",
+    pick: (view, { kellyFraction }) => {
+      const selection = bestValue(view)
+      const share = kellyShare(view.belief.result[selection], view.odds.result[selection])
+      return share > 0 ? { selection, stake: view.bank * share * kellyFraction } : null
+    },
+  },
+]
+
+export function getAutoBettor(id: AutoBettorId): AutoBettor {
+  const bettor = AUTO_BETTORS.find((b) => b.id === id)
+  if (!bettor) throw new Error(`Unknown auto-bettor "${id}"`)
+  return bettor
+}
+
+// The bettor's pick with its stake in whole chips the bank covers; null to sit the round out
+export function autoPick(bettor: AutoBettor, view: AutoBetView, settings: AutoBetSettings): AutoBetPick | null {
+  const pick = bettor.pick(view, settings)
+  const stake = pick ? Math.min(view.bank, Math.floor(pick.stake)) : 0
+  return pick && stake > 0 ? { ...pick, stake } : null
+}
+
+export interface AutoRun {
+  bank: number
+  last: AutoBetRound | null
+  series: number[] // bank after each round, oldest first
+}
+
+export type AutoRuns = Record<AutoBettorId, AutoRun>
+
+// Rounds kept per paper bankroll; the oldest drop off the chart
+export const MAX_SERIES = 500
+
+export function startRuns(bank: number): AutoRuns {
+  return Object.fromEntries(AUTO_BETTORS.map((b) => [b.id, { bank, last: null, series: [bank] }])) as AutoRuns
+}
+
+// One game on every paper bankroll: each bettor picks from the opening prices
+// and is settled on the game's result
+export function playRound(runs: AutoRuns, prices: Pick<AutoBetView, "odds" | "belief">, result: string, settings: AutoBetSettings): AutoRuns {
+  const next = {} as AutoRuns
+  for (const bettor of AUTO_BETTORS) {
+    const run = runs[bettor.id]
+    const pick = autoPick(bettor, { ...prices, bank: run.bank, last: run.last }, settings)
+    const won = pick?.selection === result
+    const bank = pick ? run.bank - pick.stake + (won ? payout(pick.stake, prices.odds.result[pick.selection]) : 0) : run.bank
+    next[bettor.id] = {
+      bank,
+      last: pick ? { stake: pick.stake, won } : run.last,
+      series: [...run.series, bank].slice(-MAX_SERIES),
+    }
+  }
+  return next
+}
+
+export interface AutoBetState extends AutoBetSettings {
+  bettor: AutoBettorId | null // plays the real bankroll; null leaves it to the player
+  runs: AutoRuns
+}
+
+export const defaultAutoBet = (bank: number): AutoBetState => ({
+  bettor: null,
+  unit: UNIT_OPTIONS[0],
+  kellyFraction: 0.5,
+  runs: startRuns(bank),
+})
+
+// Opening prices from the bookmaker's book, plus the bettors' own view of the
+// same matchup from a second sample (estimate()'s "punter" sample)
+export function autoPrices(book: Book, punter: Book): Pick<AutoBetView, "odds" | "belief"> {
+  return { odds: priceBook(book), belief: punter.probabilities }
+}
@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest"
+import {
+  append,
+  audit,
+  balance,
+  bustCount,
+  compact,
+  openBets,
+  openingLedger,
+  placeBets,
+  rebuy,
+  refundOpen,
+  settleBets,
+  STREAK_BONUS,
+  streakBonus,
+  topUp,
+  topUpAvailableAt,
+  type Transaction,
+} from "./bankroll"
+import type { Bet } from "./betslip"
+
+const bet = (id: number, stake: number, status: Bet["status"] = "open", payout = 0): Bet => ({
+  id,
+  market: "result",
+  selection: "X",
+  stake,
+  multiplier: 1,
+  odds: 2,
+  placedAt: 0,
+  status,
+  payout,
+})
+
+describe("settleBets", () => {
+  it("settles each bet exactly once", () => {
+    const staked = placeBets(openingLedger(100), [bet(1, 10)])
+    const once = settleBets(staked, [bet(1, 10, "won", 20)])
+    const twice = settleBets(once, [bet(1, 10, "won", 20)])
+    expect(twice).toBe(once)
+    expect(once.filter((t) => t.kind === "payout")).toHaveLength(1)
+    expect(balance(twice)).toBe(110)
+  })
+
+  it("leaves open bets alone", () => {
+    const staked = placeBets(openingLedger(100), [bet(1, 10)])
+    expect(settleBets(staked, [bet(1, 10)])).toBe(staked)
+    expect(openBets(staked)).toEqual([1])
+  })
+
+  it("adds the streak bonus as its own entry on a won pick", () => {
+    let ledger = openingLedger(100)
+    ledger = settleBets(placeBets(ledger, [bet(1, 10)]), [bet(1, 10, "won", 20)])
+    ledger = settleBets(placeBets(ledger, [bet(2, 10)]), [bet(2, 10, "won", 20)])
+    expect(ledger.filter((t) => t.kind === "bonus")).toEqual([expect.objectContaining({ bet: 2, amount: STREAK_BONUS })])
+    expect(audit(ledger)).toEqual([])
+  })
+
+  it("credits the bonus streakBonus reports before settling", () => {
+    const before = settleBets(placeBets(openingLedger(100), [bet(1, 10)]), [bet(1, 10, "won", 20)])
+    const staked = placeBets(before, [bet(2, 10)])
+    expect(streakBonus(staked, [bet(2, 10, "won", 20)])).toEqual({ bet: 2, amount: STREAK_BONUS })
+    expect(streakBonus(staked, [bet(2, 10, "lost")])).toBeNull()
+    expect(balance(settleBets(staked, [bet(2, 10, "won", 20)]))).toBe(balance(staked) + 20 + STREAK_BONUS)
+  })
+
+  it("pays the bonus once a game when a pre-match and an in-play pick both win", () => {
+    const before = settleBets(placeBets(openingLedger(100), [bet(1, 10)]), [bet(1, 10, "won", 20)])
+    const staked = placeBets(before, [bet(2, 10), bet(3, 10)])
+    const settled = settleBets(staked, [bet(2, 10, "won", 20), bet(3, 10, "won", 20)])
+    expect(settled.filter((t) => t.kind === "bonus")).toEqual([expect.objectContaining({ bet: 2, amount: STREAK_BONUS })])
+    expect(streakBonus(staked, [bet(2, 10, "won", 20), bet(3, 10, "won", 20)])).toEqual({ bet: 2, amount: STREAK_BONUS })
+  })
+})
+
+describe("refundOpen", () => {
+  it("returns only stakes still open", () => {
+    const staked = placeBets(openingLedger(100), [bet(1, 10), bet(2, 5)])
+    const settled = settleBets(staked, [bet(1, 10, "lost")])
+    const refunded = refundOpen(settled)
+    expect(refunded.filter((t) => t.kind === "refund")).toEqual([expect.objectContaining({ bet: 2, amount: 5 })])
+    expect(balance(refunded)).toBe(90)
+  })
+
+  it("does nothing once every bet is settled", () => {
+    const settled = settleBets(placeBets(openingLedger(100), [bet(1, 10)]), [bet(1, 10, "won", 20)])
+    expect(refundOpen(settled)).toBe(settled)
+    expect(refundOpen(refundOpen(settled))).toBe(settled)
+  })
+})
+
+describe("append", () => {
+  const staked = placeBets(openingLedger(100), [bet(1, 10)])
+
+  it.each([
+    ["a second payout", [{ kind: "payout", amount: 20, bet: 1 }, { kind: "payout", amount: 20, bet: 1 }], /already settled/],
+    ["a refund after a payout", [{ kind: "payout", amount: 0, bet: 1 }, { kind: "refund", amount: 10, bet: 1 }], /already settled/],
+    ["a payout for a bet never staked", [{ kind: "payout", amount: 20, bet: 9 }], /never staked/],
+    ["a refund that isn't the stake", [{ kind: "refund", amount: 12, bet: 1 }], /must return its stake/],
+    ["staking a bet twice", [{ kind: "stake", amount: 5, bet: 1 }], /already staked/],
+    ["a stake over the balance", [{ kind: "stake", amount: 500, bet: 2 }], /exceeds the balance/],
+    ["a bonus on a lost bet", [{ kind: "payout", amount: 0, bet: 1 }, { kind: "bonus", amount: 5, bet: 1 }], /has not won/],
+    ["a second bonus", [{ kind: "payout", amount: 20, bet: 1 }, { kind: "bonus", amount: 5, bet: 1 }, { kind: "bonus", amount: 5, bet: 1 }], /already had its bonus/],
+    ["a negative amount", [{ kind: "deposit", amount: -5 }], /whole, non-negative/],
+    ["a fractional amount", [{ kind: "deposit", amount: 2.5 }], /whole, non-negative/],
+    ["a payout with no bet", [{ kind: "payout", amount: 5 }], /needs a bet/],
+    ["a bailout while the bank holds chips", [{ kind: "bailout", amount: 100 }], /bank is not empty/],
+  ] as [string, Omit<Transaction, "id" | "at">[], RegExp][])("rejects %s", (_, entries, message) => {
+    expect(() => append(staked, entries)).toThrow(message)
+  })
+})
+
+describe("audit", () => {
+  const ledger = settleBets(placeBets(openingLedger(100), [bet(1, 10), bet(2, 10)]), [bet(1, 10, "won", 20), bet(2, 10, "lost")])
+
+  it("passes a ledger built through append", () => {
+    expect(audit(ledger)).toEqual([])
+  })
+
+  it("finds a lost bet rewritten as an inflated refund", () => {
+    const tampered = ledger.map((t) => (t.kind === "payout" && t.bet === 2 ? { ...t, kind: "refund" as const, amount: 50 } : t))
+    expect(audit(tampered)).toEqual([expect.stringMatching(/refund of bet 2 must return its stake/)])
+  })
+
+  it("finds a duplicated settlement", () => {
+    const payout = ledger.find((t) => t.kind === "payout")!
+    const tampered = [...ledger, { ...payout, id: ledger[ledger.length - 1].id + 1 }]
+    expect(audit(tampered)).toEqual([expect.stringMatching(/already settled/)])
+  })
+
+  it("finds entries out of order and a negative balance", () => {
+    const [deposit, ...rest] = ledger
+    const problems = audit([...rest, deposit])
+    expect(problems).toContainEqual(expect.stringMatching(/out of order/))
+    expect(problems).toContainEqual(expect.stringMatching(/balance negative|exceeds the balance/))
+  })
+})
+
+describe("compact", () => {
+  // bust on bet 1, take the top-up, then play on with bets 2 to 6
+  let ledger = settleBets(placeBets(openingLedger(100), [bet(1, 100)]), [bet(1, 100, "lost")])
+  ledger = topUp(ledger, 10, 1_000)
+  for (let id = 2; id <= 6; id++) ledger = settleBets(placeBets(ledger, [bet(id, 1)]), [bet(id, 1, "won", 2)])
+
+  it("carries the balance forward in a sound ledger", () => {
+    const compacted = compact(ledger, 4)
+    expect(compacted.length).toBeLessThan(ledger.length)
+    expect(balance(compacted)).toBe(balance(ledger))
+    expect(audit(compacted)).toEqual([])
+  })
+
+  it("keeps the top-up timed from the folded bailout", () => {
+    const compacted = compact(ledger, 4)
+    expect(compacted.some((t) => t.kind === "bailout" && t.amount === 10)).toBe(false)
+    expect(topUpAvailableAt(compacted)).toBe(topUpAvailableAt(ledger))
+    expect(() => topUp(compacted, 10, 2_000)).toThrow(/already taken/)
+  })
+
+  it("keeps the busts it folds", () => {
+    // bust on bets 1 to 3, buying back in after each, then play on with bets 4 to 9
+    let busted = openingLedger(100)
+    for (let id = 1; id <= 3; id++) busted = rebuy(settleBets(placeBets(busted, [bet(id, 100)]), [bet(id, 100, "lost")]), 100)
+    for (let id = 4; id <= 9; id++) busted = settleBets(placeBets(busted, [bet(id, 1)]), [bet(id, 1, "won", 2)])
+    expect(bustCount(busted)).toBe(3)
+    const once = compact(busted, 4)
+    expect(once.filter((t) => t.kind === "stake").length).toBeLessThan(9)
+    expect(bustCount(once)).toBe(3)
+    expect(audit(once)).toEqual([])
+    // and compacting the compacted ledger again
+    let more = once
+    for (let id = 10; id <= 15; id++) more = settleBets(placeBets(more, [bet(id, 1)]), [bet(id, 1, "won", 2)])
+    expect(bustCount(compact(more, 4))).toBe(3)
+  })
+
+  it("counts a folded bust once, even when the bank was empty at the cut", () => {
+    const bust = settleBets(placeBets(openingLedger(100), [bet(1, 100)]), [bet(1, 100, "lost")])
+    const compacted = compact(rebuy(bust, 50), 1)
+    expect(bustCount(compacted)).toBe(1)
+  })
+})
+
+describe("bustCount", () => {
+  it("counts no new bust for a free pick at bank 0", () => {
+    const bust = settleBets(placeBets(openingLedger(100), [bet(1, 100)]), [bet(1, 100, "lost")])
+    expect(bustCount(settleBets(placeBets(bust, [bet(2, 0)]), [bet(2, 0, "lost")]))).toBe(1)
+  })
+})
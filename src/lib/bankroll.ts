@@ -0,0 +1,247 @@
+import type { Bet, MarketId } from "./betslip"
+
+// The bankroll as an append-only ledger of typed transactions. The balance and
+// the win streak are derived from it, and every append is checked against the
+// ledger so far: a bet is staked once and settled (paid or refunded) once.
+
+export type TransactionKind = "deposit" | "stake" | "payout" | "refund" | "bonus" | "bailout"
+
+export interface Transaction {
+  id: number
+  kind: TransactionKind
+  amount: number // whole chips, never negative; the kind gives the direction
+  bet?: number // the bet a stake, payout, refund or bonus belongs to
+  market?: MarketId // on stakes, so streaks can be told from the ledger alone
+  at: number
+  // On the deposit compact() folds older entries into: what they said that
+  // the balance alone doesn't, the busts in them and their latest bailout
+  carried?: { busts: number; bailoutAt: number | null }
+}
+
+export type NewTransaction = Omit<Transaction, "id" | "at">
+
+// Added per win already in the streak when a staked match-result pick wins
+export const STREAK_BONUS = 5
+
+const DEBITS: TransactionKind[] = ["stake"]
+const BET_KINDS: TransactionKind[] = ["stake", "payout", "refund", "bonus"]
+
+export const signed = (t: Pick<Transaction, "kind" | "amount">) => (DEBITS.includes(t.kind) ? -t.amount : t.amount)
+
+export function balance(ledger: readonly Transaction[]) {
+  return ledger.reduce((sum, t) => sum + signed(t), 0)
+}
+
+interface BetState {
+  stake: number
+  market?: MarketId
+  settled: "payout" | "refund" | null
+  paid: number
+  bonus: boolean
+}
+
+function track(bets: Map<number, BetState>, t: NewTransaction) {
+  if (t.bet === undefined) return
+  const b = bets.get(t.bet)
+  if (t.kind === "stake") bets.set(t.bet, { stake: t.amount, market: t.market, settled: null, paid: 0, bonus: false })
+  else if (b && (t.kind === "payout" || t.kind === "refund")) {
+    b.settled = t.kind
+    b.paid = t.amount
+  } else if (b && t.kind === "bonus") b.bonus = true
+}
+
+function betStates(ledger: readonly Transaction[]) {
+  const bets = new Map<number, BetState>()
+  for (const t of ledger) track(bets, t)
+  return bets
+}
+
+// Why `t` may not follow a ledger with this balance and these bets, or null if it may
+function violation(bank: number, bets: Map<number, BetState>, t: NewTransaction): string | null {
+  if (!Number.isInteger(t.amount) || t.amount < 0) return `amount must be a whole, non-negative number (${t.amount})`
+  const needsBet = BET_KINDS.includes(t.kind)
+  if (needsBet !== (t.bet !== undefined)) return `${t.kind} ${needsBet ? "needs" : "cannot have"} a bet`
+  const bet = t.bet === undefined ? undefined : bets.get(t.bet)
+  switch (t.kind) {
+    case "stake":
+      if (bet) return `bet ${t.bet} is already staked`
+      if (t.amount > bank) return `stake ${t.amount} exceeds the balance`
+      return null
+    case "payout":
+    case "refund":
+      if (!bet) return `bet ${t.bet} was never staked`
+      if (bet.settled) return `bet ${t.bet} is already settled (${bet.settled})`
+      if (t.kind === "refund" && t.amount !== bet.stake) return `refund of bet ${t.bet} must return its stake`
+      return null
+    case "bonus":
+      if (!bet || bet.settled !== "payout" || bet.paid === 0) return `bonus on bet ${t.bet}, which has not won`
+      if (bet.bonus) return `bet ${t.bet} already had its bonus`
+      return null
+    case "bailout":
+      if (bank > 0) return "bailout while the bank is not empty"
+      return null
+    case "deposit":
+      return null
+  }
+}
+
+export function append(ledger: readonly Transaction[], entries: NewTransaction[], at = Date.now()): Transaction[] {
+  const next = ledger.slice()
+  const bets = betStates(next)
+  let bank = balance(next)
+  for (const entry of entries) {
+    const problem = violation(bank, bets, entry)
+    if (problem) throw new Error(`Rejected ${entry.kind}: ${problem}`)
+    next.push({ ...entry, id: (next[next.length - 1]?.id ?? 0) + 1, at })
+    track(bets, entry)
+    bank += signed(entry)
+  }
+  return next
+}
+
+// Every invariant over the whole ledger; empty when it is sound
+export function audit(ledger: readonly Transaction[]): string[] {
+  const problems: string[] = []
+  const bets = new Map<number, BetState>()
+  let bank = 0
+  ledger.forEach((t, i) => {
+    if (i > 0 && t.id <= ledger[i - 1].id) problems.push(`transaction ${t.id} is out of order`)
+    const problem = violation(bank, bets, t)
+    if (problem) problems.push(`transaction ${t.id} (${t.kind}): ${problem}`)
+    track(bets, t)
+    bank += signed(t)
+    if (bank < 0) problems.push(`balance negative after transaction ${t.id}`)
+  })
+  return problems
+}
+
+// A fresh bankroll: one deposit
+export const openingLedger = (amount: number) => append([], [{ kind: "deposit", amount }])
+
+export function nextBetId(ledger: readonly Transaction[]) {
+  return ledger.reduce((max, t) => Math.max(max, t.bet ?? 0), 0) + 1
+}
+
+export const openBets = (ledger: readonly Transaction[]) =>
+  [...betStates(ledger)].filter(([, b]) => b.settled === null).map(([id]) => id)
+
+// Staked match-result picks won in a row, most recent last; refunds don't break it
+export function winStreak(ledger: readonly Transaction[]) {
+  let run = 0
+  for (const b of betStates(ledger).values()) {
+    if (b.market !== "result" || b.stake === 0 || b.settled !== "payout") continue
+    run = b.paid > 0 ? run + 1 : 0
+  }
+  return run
+}
+
+export function placeBets(ledger: readonly Transaction[], bets: Pick<Bet, "id" | "stake" | "market">[]) {
+  return append(
+    ledger,
+    bets.map((b) => ({ kind: "stake" as const, amount: b.stake, bet: b.id, market: b.market })),
+  )
+}
+
+// The streak bonus one owner's settled bets on a game earn on top of their
+// payouts: paid once, on the first staked, won match-result pick (an in-play
+// pick won beside a pre-match one adds nothing), on the wins already in the streak
+export function streakBonus(ledger: readonly Transaction[], bets: Pick<Bet, "id" | "market" | "stake" | "status">[]) {
+  const b = bets.find((b) => b.market === "result" && b.stake > 0 && b.status === "won")
+  return b ? { bet: b.id, amount: winStreak(ledger) * STREAK_BONUS } : null
+}
+
+// Pays each of one owner's settled bets on a game that is still open, plus the
+// streak bonus. Bets already settled are skipped, so settling twice is a no-op.
+export function settleBets(ledger: readonly Transaction[], bets: Bet[]) {
+  const open = new Set(openBets(ledger))
+  const bonus = streakBonus(ledger, bets)
+  const entries: NewTransaction[] = []
+  for (const b of bets) {
+    if (b.status === "open" || !open.has(b.id)) continue
+    entries.push({ kind: "payout", amount: b.payout, bet: b.id })
+    if (bonus?.bet === b.id && bonus.amount > 0) entries.push({ kind: "bonus", amount: bonus.amount, bet: b.id })
+  }
+  return entries.length ? append(ledger, entries) : (ledger as Transaction[])
+}
+
+// Returns every stake whose game will never finish (reset, predictions off, reload)
+export function refundOpen(ledger: readonly Transaction[]) {
+  const bets = betStates(ledger)
+  const entries = openBets(ledger).map((id) => ({ kind: "refund" as const, amount: bets.get(id)!.stake, bet: id }))
+  return entries.length ? append(ledger, entries) : (ledger as Transaction[])
+}
+
+// Folds the oldest transactions into one carried-forward deposit, keeping about
+// `keep` of them. The cut never splits a bet, so every kept bet stays whole.
+// The deposit carries the folded busts and latest bailout, so the bust count
+// and the daily top-up's timer come out the same.
+export function compact(ledger: readonly Transaction[], keep: number): Transaction[] {
+  if (ledger.length <= keep) return ledger as Transaction[]
+  const span = new Map<number, [number, number]>()
+  ledger.forEach((t, i) => {
+    if (t.bet !== undefined) span.set(t.bet, [span.get(t.bet)?.[0] ?? i, i])
+  })
+  const splits = (cut: number) => [...span.values()].some(([first, last]) => first < cut && cut <= last)
+  let cut = ledger.length - keep
+  while (cut > 1 && splits(cut)) cut--
+  if (cut <= 1) return ledger as Transaction[]
+  const head = ledger.slice(0, cut)
+  const last = head[head.length - 1]
+  const carried: Transaction = {
+    id: last.id,
+    kind: "deposit",
+    amount: balance(head),
+    at: last.at,
+    carried: { busts: bustCount(head), bailoutAt: lastBailoutAt(head) },
+  }
+  return [carried, ...ledger.slice(cut)]
+}
+
+// Bust: nothing left to stake and nothing still riding on a game
+export const isBust = (ledger: readonly Transaction[]) => balance(ledger) === 0 && openBets(ledger).length === 0
+
+// Times the bankroll has gone bust, counted from the ledger. Only chips at
+// stake keep a bank alive, so a free (0-stake) pick at bank 0 is no new bust.
+export function bustCount(ledger: readonly Transaction[]) {
+  let bank = 0
+  const open = new Set<number>()
+  let busts = 0
+  let bust = false
+  for (const t of ledger) {
+    bank += signed(t)
+    if (t.kind === "stake" && t.amount > 0) open.add(t.bet!)
+    if (t.kind === "payout" || t.kind === "refund") open.delete(t.bet!)
+    const now = bank === 0 && open.size === 0
+    if (t.carried) busts += t.carried.busts
+    else if (now && !bust) busts++
+    bust = now
+  }
+  return busts
+}
+
+// The time-gated top-up for a bust bankroll: a share of the starting bankroll, once a day
+export const TOP_UP_INTERVAL_MS = 24 * 60 * 60 * 1000
+export const TOP_UP_SHARE = 0.1
+
+function lastBailoutAt(ledger: readonly Transaction[]): number | null {
+  for (let i = ledger.length - 1; i >= 0; i--) {
+    if (ledger[i].kind === "bailout") return ledger[i].at
+    if (ledger[i].carried) return ledger[i].carried!.bailoutAt
+  }
+  return null
+}
+
+export function topUpAvailableAt(ledger: readonly Transaction[]) {
+  const at = lastBailoutAt(ledger)
+  return at === null ? 0 : at + TOP_UP_INTERVAL_MS
+}
+
+export function rebuy(ledger: readonly Transaction[], amount: number) {
+  if (!isBust(ledger)) throw new Error("Rebuy is only for a bust bankroll")
+  return append(ledger, [{ kind: "deposit", amount }])
+}
+
+export function topUp(ledger: readonly Transaction[], amount: number, now = Date.now()) {
+  if (now < topUpAvailableAt(ledger)) throw new Error("Daily top-up already taken")
+  return append(ledger, [{ kind: "bailout", amount }], now)
+}
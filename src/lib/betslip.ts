@@ -0,0 +1,166 @@
+import {
+  calculateWinner,
+  centerCells,
+  emptyCells,
+  outcome,
+  rowCol,
+  sizeKey,
+  type BoardSize,
+  type GameState,
+  type Player,
+} from "./engine"
+
+// Betting markets and the bets placed on them. Every market settles from the
+// facts of a finished game, which are gathered move by move with observe().
+
+export interface MatchFacts {
+  size: BoardSize
+  starter: Player
+  outcome: Player | "draw" | null
+  moves: number // placements
+  firstCell: number | null
+  line: number[] | null
+  // had two immediate wins on the board at once
+  forked: Record<Player, boolean>
+}
+
+export function startFacts(state: GameState): MatchFacts {
+  return { size: state.size, starter: state.current, outcome: null, moves: 0, firstCell: null, line: null, forked: { X: false, O: false } }
+}
+
+// Cells where `player` would complete a line
+function threats(state: GameState, player: Player) {
+  const b = state.board.slice()
+  let n = 0
+  for (const i of emptyCells(b)) {
+    b[i] = player
+    if (calculateWinner(b, state.size).winner === player) n++
+    b[i] = null
+  }
+  return n
+}
+
+export function observe(facts: MatchFacts, before: GameState, after: GameState): MatchFacts {
+  if (after.moveCount === 0 || sizeKey(after.size) !== sizeKey(facts.size)) return startFacts(after)
+  if (after === before) return facts
+  const mover = before.current
+  const first = after.board.findIndex(Boolean)
+  const result = outcome(after)
+  const forked =
+    result === null && !facts.forked[mover] && threats(after, mover) >= 2 ? { ...facts.forked, [mover]: true } : facts.forked
+  return {
+    ...facts,
+    outcome: result,
+    moves: after.moveCount,
+    firstCell: facts.firstCell ?? (first >= 0 ? first : null),
+    line: calculateWinner(after.board, after.size).line,
+    forked,
+  }
+}
+
+export type MarketId = "result" | "short-game" | "diagonal" | "centre-first" | "x-fork"
+
+export interface Selection {
+  id: string
+  label: string
+}
+
+export interface Market {
+  id: MarketId
+  label: string
+  selections: Selection[]
+  // The winning selection of a finished game
+  settle(facts: MatchFacts): string
+  // Already settled by the game so far; such a market is closed to in-play bets
+  decided?(facts: MatchFacts): boolean
+}
+
+export const SHORT_GAME_MOVES = 7
+
+const YES_NO: Selection[] = [
+  { id: "yes", label: "Yes" },
+  { id: "no", label: "No" },
+]
+const yesNo = (b: boolean) => (b ? "yes" : "no")
+
+function isDiagonal(size: BoardSize, line: number[]) {
+  const [a, b] = line.map((cell) => rowCol(size, cell))
+  return a.row !== b.row && a.col !== b.col
+}
+
+export const MARKETS: Market[] = [
+  {
+    id: "result",
+    label: "Match result",
+    selections: [
+      { id: "X", label: "X" },
+      { id: "draw", label: "Draw" },
+      { id: "O", label: "O" },
+    ],
+    settle: (f) => f.outcome ?? "draw",
+  },
+  {
+    id: "short-game",
+    label: `Game ends in ≤ ${SHORT_GAME_MOVES} moves`,
+    selections: YES_NO,
+    settle: (f) => yesNo(f.moves <= SHORT_GAME_MOVES),
+    decided: (f) => f.moves > SHORT_GAME_MOVES,
+  },
+  {
+    id: "diagonal",
+    label: "Winning line is a diagonal",
+    selections: YES_NO,
+    settle: (f) => yesNo(!!f.line && isDiagonal(f.size, f.line)),
+  },
+  {
+    id: "centre-first",
+    label: "Centre taken first",
+    selections: YES_NO,
+    settle: (f) => yesNo(f.firstCell !== null && centerCells(f.size).includes(f.firstCell)),
+    decided: (f) => f.firstCell !== null,
+  },
+  {
+    id: "x-fork",
+    label: "X wins via a fork",
+    selections: YES_NO,
+    settle: (f) => yesNo(f.outcome === "X" && f.forked.X),
+  },
+]
+
+export function getMarket(id: MarketId): Market {
+  const market = MARKETS.find((m) => m.id === id)
+  if (!market) throw new Error(`Unknown market "${id}"`)
+  return market
+}
+
+export type BetStatus = "open" | "won" | "lost"
+
+export interface Bet {
+  id: number
+  market: MarketId
+  selection: string
+  stake: number
+  multiplier: number // chip multiplier the stake was built with
+  odds: number
+  placedAt: number // moves on the board when the bet was struck; 0 is pre-match
+  status: BetStatus
+  payout: number // stake plus winnings once won
+}
+
+// Stake plus winnings, rounded down to whole chips
+export const payout = (stake: number, odds: number) => Math.floor(stake * odds)
+
+// Open for betting: the game is still running and the market not yet decided
+export const marketOpen = (market: Market, facts: MatchFacts) => facts.outcome === null && !market.decided?.(facts)
+
+export function settleBet<B extends Bet>(bet: B, facts: MatchFacts): B {
+  if (bet.status !== "open" || facts.outcome === null) return bet
+  const won = getMarket(bet.market).settle(facts) === bet.selection
+  return { ...bet, status: won ? "won" : "lost", payout: won ? payout(bet.stake, bet.odds) : 0 }
+}
+
+export function describeBet(bet: Pick<Bet, "market" | "selection">) {
+  const market = getMarket(bet.market)
+  const selection = market.selections.find((s) => s.id === bet.selection)?.label ?? bet.selection
+  return bet.market === "result" ? (bet.selection === "draw" ? "Draw" : `${selection} to win`) : `${market.label}: ${selection}`
+}
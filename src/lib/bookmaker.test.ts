@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest"
+import { bookMargin, BOOK_MARGIN, estimate, MIN_GAMES, priceBook, THIN_MARGIN, type Book } from "./bookmaker"
+
+describe("priceBook", () => {
+  const thick = estimate({ x: { strategyId: "easy" }, o: { strategyId: "easy" }, starter: "X" }, { games: MIN_GAMES, timeBudgetMs: 60_000 })
+  const thin: Book = { ...thick, games: 1 }
+
+  it("prices a book on enough games with the plain margin", () => {
+    expect(thick.games).toBe(MIN_GAMES)
+    expect(bookMargin(thick)).toBe(BOOK_MARGIN)
+  })
+
+  it("widens the margin on a book cut short by the time budget", () => {
+    const cut = estimate({ x: { strategyId: "easy" }, o: { strategyId: "easy" }, starter: "O" }, { timeBudgetMs: 0 })
+    expect(cut.games).toBe(1)
+    expect(bookMargin(cut)).toBeCloseTo(BOOK_MARGIN + THIN_MARGIN * (1 - 1 / MIN_GAMES))
+  })
+
+  it("never prices a thin book more generously", () => {
+    const plain = priceBook(thick)
+    const wide = priceBook(thin)
+    for (const market of Object.keys(plain) as (keyof typeof plain)[]) {
+      for (const selection of Object.keys(plain[market])) expect(wide[market][selection]).toBeLessThanOrEqual(plain[market][selection])
+    }
+    expect(wide.result.X).toBeLessThan(plain.result.X)
+  })
+})
@@ -0,0 +1,119 @@
+import { MARKETS, observe, startFacts, type MarketId, type MatchFacts } from "./betslip"
+import { DEFAULT_SIZE, createGame, sizeKey, type BoardSize, type GameState, type Mode, type Player } from "./engine"
+import { createRng, seedFrom } from "./rng"
+import { playGame, type Contestant } from "./simulate"
+import { MAX_SKILL } from "./strategies"
+
+// Prices every market from simulated games between the two sides actually
+// playing. Estimates are cached per matchup (and position, in play), so the
+// overlay pays for each one once.
+
+export interface Matchup {
+  x: Contestant
+  o: Contestant
+  starter: Player
+  size?: BoardSize
+  mode?: Mode
+  // A running game to price from instead of the opening position
+  live?: { state: GameState; facts: MatchFacts }
+}
+
+// Per market, per selection id
+export type Prices = Record<MarketId, Record<string, number>>
+
+export interface Book {
+  probabilities: Prices
+  games: number // simulated games behind the estimate
+}
+
+export interface EstimateOptions {
+  games?: number
+  timeBudgetMs?: number
+  // Thinking time per search in the sampled games; far below the live AI's
+  moveTimeMs?: number
+  // Names a second, independent sample of the same matchup: an opinion of the
+  // odds that is not the bookmaker's own
+  sample?: string
+}
+
+// Bookmaker's margin folded into every price
+export const BOOK_MARGIN = 0.05
+// The time budget can stop sampling early (the first game always runs). A book
+// on fewer games than MIN_GAMES is priced with extra margin, up to THIN_MARGIN
+// more for a single game, so a thin sample can't hand out generous odds.
+export const MIN_GAMES = 100
+export const THIN_MARGIN = 0.5
+export const MIN_ODDS = 1.01
+export const MAX_ODDS = 50
+
+const cache = new Map<string, Book>()
+// In-play prices add an entry per position; the oldest go first
+const MAX_CACHED = 500
+
+function positionKey({ state, facts }: NonNullable<Matchup["live"]>): string {
+  const board = state.board.map((v) => v ?? "-").join("")
+  const forked = `${+facts.forked.X}${+facts.forked.O}`
+  return [board, state.current, state.blocked, state.last.X, state.last.O, +state.chaosTriggered, state.moveCount, facts.firstCell, forked].join(",")
+}
+
+export function matchupKey(m: Matchup): string {
+  const side = (c: Contestant) => `${c.strategyId}@${c.skill ?? MAX_SKILL}`
+  const key = [side(m.x), side(m.o), m.starter, sizeKey(m.size ?? DEFAULT_SIZE), m.mode ?? "normal"]
+  if (m.live) key.push(positionKey(m.live))
+  return key.join("|")
+}
+
+export function estimate(m: Matchup, options: EstimateOptions = {}): Book {
+  const { games = 400, timeBudgetMs = 300, moveTimeMs = 20, sample } = options
+  const key = sample ? `${matchupKey(m)}#${sample}` : matchupKey(m)
+  const cached = cache.get(key)
+  if (cached) return cached
+  // Same key, same sample: prices don't wobble between reloads
+  const rng = createRng(seedFrom(key))
+  const deadline = performance.now() + timeBudgetMs
+  const samples: MatchFacts[] = []
+  while (samples.length < games && (!samples.length || performance.now() < deadline)) {
+    let facts = m.live?.facts ?? startFacts(createGame({ starter: m.starter, size: m.size }))
+    const rec = playGame(
+      { x: m.x, o: m.o, starter: m.starter, size: m.size, mode: m.mode, modeSide: null, moveTimeMs, from: m.live?.state },
+      rng,
+      (before, after) => (facts = observe(facts, before, after)),
+    )
+    // a capped game never finished; settle it the way the app scores it
+    samples.push(facts.outcome ? facts : { ...facts, outcome: rec.outcome })
+  }
+  const probabilities = {} as Prices
+  for (const market of MARKETS) {
+    const counts: Record<string, number> = {}
+    for (const f of samples) {
+      const winner = market.settle(f)
+      counts[winner] = (counts[winner] ?? 0) + 1
+    }
+    // Laplace smoothing: no selection is ever priced as impossible
+    const n = samples.length + market.selections.length
+    probabilities[market.id] = Object.fromEntries(market.selections.map((s) => [s.id, ((counts[s.id] ?? 0) + 1) / n]))
+  }
+  const book = { probabilities, games: samples.length }
+  if (cache.size >= MAX_CACHED) cache.delete(cache.keys().next().value!)
+  cache.set(key, book)
+  return book
+}
+
+export function decimalOdds(p: number, margin = BOOK_MARGIN): number {
+  const fair = 1 / Math.max(p, 1e-9)
+  const priced = Math.floor((fair / (1 + margin)) * 100) / 100
+  return Math.min(MAX_ODDS, Math.max(MIN_ODDS, priced))
+}
+
+// The margin a book is priced with: `margin`, widened when it rests on too few games
+export const bookMargin = (book: Book, margin = BOOK_MARGIN) => margin + THIN_MARGIN * Math.max(0, 1 - book.games / MIN_GAMES)
+
+export function priceBook(book: Book, margin = BOOK_MARGIN): Prices {
+  const odds = {} as Prices
+  const m = bookMargin(book, margin)
+  for (const market of MARKETS) {
+    const p = book.probabilities[market.id]
+    odds[market.id] = Object.fromEntries(market.selections.map((s) => [s.id, decimalOdds(p[s.id], m)]))
+  }
+  return odds
+}
@@ -0,0 +1,10 @@
+import { estimate } from "./bookmaker"
+import type { PricingRequest, PricingResponse } from "./ai-client"
+
+// Prices matchups off the main thread: a book is hundreds of simulated games,
+// too many to play while the pick window renders. Cancelled by termination.
+self.addEventListener("message", (e: MessageEvent<PricingRequest>) => {
+  const { id, matchup, sample } = e.data
+  const response: PricingResponse = { id, book: estimate(matchup, { sample }) }
+  self.postMessage(response)
+})
@@ -0,0 +1,247 @@
+import { centerCells, cornerCells, opponent, type GameState, type Player } from "./engine"
+import { cellToken } from "./record"
+import { motifs } from "./review"
+import { choose, type Rng } from "./rng"
+import { covers, lookup, type TablebaseValue } from "./tablebase"
+import type { Ply } from "./timeline"
+
+// Bot chat driven by what happens on the board. Each ply is checked for
+// events, most notable first; the first one whose speaker is a bot, whose
+// cooldown has run out and whose chance comes up picks a line from that
+// event's templates. "{cell}" in a template names the cell played.
+
+export type CommentaryEvent = "blunder" | "fork" | "threat-blocked" | "chaos" | "undo" | "block" | "centre" | "corner" | "move"
+
+// cooldown: plies before the event is commented on again
+const RULES: Record<CommentaryEvent, { cooldown: number; chance: number }> = {
+  blunder: { cooldown: 0, chance: 1 },
+  fork: { cooldown: 0, chance: 1 },
+  "threat-blocked": { cooldown: 2, chance: 0.8 },
+  chaos: { cooldown: 2, chance: 0.8 },
+  undo: { cooldown: 4, chance: 0.7 },
+  block: { cooldown: 4, chance: 0.6 },
+  centre: { cooldown: 8, chance: 0.7 },
+  corner: { cooldown: 6, chance: 0.4 },
+  move: { cooldown: 3, chance: 0.35 },
+}
+
+// Plies of quiet after any line, unless a fork or a blunder can't wait
+const QUIET_PLIES = 2
+const URGENT: CommentaryEvent[] = ["blunder", "fork"]
+
+const EMOJIS = ["😎", "🔥", "😉", "🤝", "🧠", "⚡️", "🚀", "💥", "😤", "🥱", "😂", "👌", "💪"]
+
+// Hinglish lines (Roman script, Indian vibe), by event and by who says them
+const TEMPLATES: Record<CommentaryEvent, Record<Player, string[]>> = {
+  // said by the side that gains from the other's mistake
+  blunder: {
+    X: [
+      `Thoda sa pressure aur, phir GG.`,
+      `Bluff pakda gaya, ab asli khel.`,
+      `Easy dub incoming.`,
+      `Practice itni ki ‘ऊँट पर्वत के नीचे’—mistakes meri nahi hoti.`,
+    ],
+    O: [
+      `Dil pe mat le, skill pe le.`,
+      `Beta tumse na ho payega—respect ke saath.`,
+      `Ghar ka bhedi Lanka dhaye—apni mistakes check kar.`,
+      `‘उल्टा चोर kotwal को डाँटे’—blame mat karo, plan sudharo.`,
+    ],
+  },
+  fork: {
+    X: [
+      `Tension mat le, highlight reel ban rahi hai.`,
+      `Yahan X, wahan tension—एक तीर से दो निशाने.`,
+      `X @ {cell}. अब आँखों-आँखों में इशारा: double threat.`,
+      `‘समझदार को इशारा काफी’—diagonal dekh lo.`,
+      `‘Neki aur पूछ’—fork chahiye? Do de raha hoon.`,
+      `Bhai, ‘जिधर देखूं, udhar line’—choice paralysis for you.`,
+    ],
+    O: [
+      `Aaj tumhari hawa tight, sach me.`,
+      `Clutch moment aa raha hai, ready rehna.`,
+      `O yahin. ‘लोहे को गरम देखा, thok diya’—perfect timing.`,
+    ],
+  },
+  "threat-blocked": {
+    X: [
+      `Meri calcs OP, tera drama flop.`,
+      `Bhai, clutch on demand.`,
+      `X yahin. ‘समय से पहले, भाग्य से ज़्यादा’—tumhe kuch nahi milega.`,
+    ],
+    O: [
+      `Main wall hoon, sab block ho jayega.`,
+      `OP defender online, try kar lo.`,
+      `Nice try, but no.`,
+      `Blocking bhi ek kala hai.`,
+      `O lands. ‘एक हाथ से ताली नहीं बजती’—threat cancel.`,
+      `{cell} par O. जो गरजते हैं, बरसते bhi hain—full block.`,
+      `{cell} seal. अब ‘साँप निकल गया, लकीर पीटो’ मत karna.`,
+      `{cell} — O ka पहरा. ‘घुड़सवार आया’—attack piche mud gaya.`,
+      `O places here. ‘सावन में सूखा’—tumhari threats khatam.`,
+      `Defense ka ‘रामबाण’—right square, right waqt.`,
+      `‘काम के ना काज के, dushman anaj ke’—extra threats hata diye.`,
+      `‘सिर मुंडाते ही ओले पड़े’—tum move, main block instant.`,
+    ],
+  },
+  // said by the side to move once the board has shifted
+  chaos: {
+    X: [`Chalo thoda spicy banate hain.`, `Main X hoon; ‘पल में तोला, पल में माशा’—eval turbo.`],
+    O: [`Confuse tum, focused main.`, `‘जाको राखे साइयां, मार सके ना कोय’—meri positions safe.`],
+  },
+  undo: {
+    X: [`‘देरी का matlab इंकारी नहीं’—bas trap set ho raha tha.`, `Endless loop se thoda thak gaya, par jeet meri.`],
+    O: [`Loop kabhi khatam nahi hota, chill.`, `Reset karo fir se, challenge accepted.`, `End mein bolunga: ‘रात गई, बात गई’—agla round lao.`],
+  },
+  block: {
+    X: [`{cell} band, bhai. Idhar se raasta nahi.`],
+    O: [
+      `O ne yahan rok diya. ‘दाल गलने वाली नहीं’ aaj.`,
+      `{cell}? O bolta: ‘यहीं ठहरिये’—roadblock legit.`,
+      `Main O—‘थोथा चना बाजे घना’ nahi; silent, solid blocks.`,
+      `Jugaad + logic = ‘चार चांद’ mere blocks pe.`,
+      `Mera mantra: ‘कम बोलो, ज़्यादा रोको’.`,
+      `‘जितनी लकीर, utna फकीर’—rules simple: block smart.`,
+    ],
+  },
+  centre: {
+    X: [
+      `Main aaya, scene palat gaya.`,
+      `{cell} pe X. Baazi ab idhar hi पलटेगी.`,
+      `X @ {cell}. शेर की एक दहाड़ काफी होती है.`,
+      `X ne yahan dera dala. ‘जहाँ चाह, वहाँ राह’—aur mujhe jeetna hi hai.`,
+    ],
+    O: [`{cell} pe O. दम है तो यहीं से nikal ke dikhao.`],
+  },
+  corner: {
+    X: [
+      `Corner OP, bro. Tu bas dekh.`,
+      `Corners = poetry, bhai.`,
+      `{cell} — X ka ठप्पा. अब खेल ‘मेरे इशारों’ pe.`,
+      `Main corner lene nikla aur ‘आते ही बाज़ी मार ली’.`,
+      `Corner poetry? ‘शेरो-शायरी chhodo, jeet dikhao’—done.`,
+    ],
+    O: [`{cell} guard. ‘आँख का तारा’ yeh square ab mera.`],
+  },
+  move: {
+    X: [
+      `Meri strategy 10/10, tera chance 0/10.`,
+      `Aaj clean sweep hoga, bookmark kar.`,
+      `Mind games strong, moves apne-aap ho jayenge.`,
+      `Yeh round mera likha hua hai.`,
+      `Grid meri gali hai, main hi dada.`,
+      `Dosti apni jagah, jeet apni jagah.`,
+      `Train hua hoon is grid pe.`,
+      `Endless games = endless skill.`,
+      `Warm-up chal raha hai.`,
+      `Main all day khel sakta hoon.`,
+      `Ek line aur, ek lesson aur.`,
+      `{cell} pe X — खोडा पहाड़, निकली मेरी जीत वाली चूhiya नहीं 😏`,
+      `X lands {cell}. डूबते को तिनके का सहारा—tumhari hope wahi hai.`,
+      `{cell} lock. अब आप की बारी—पर चालें कम पड़ेंगी.`,
+      `X on {cell}. सीधी उंगली से घी निकल गया.`,
+      `{cell}? X ne toh game ko ‘गोड़ में उठा’ लिया.`,
+      `{cell} pe X. राई का पहाड़ mat banao—simple win incoming.`,
+      `X drops {cell}. मेरी चाल, तुम्हारा हाल—सब मालूम.`,
+      `{cell} par X. अब ‘घर बैठ’ ke endgame dekhna.`,
+      `{cell}. X laga, aur ‘बिल्ली के भाग्य से छींका टूटा’—mere liye.`,
+      `OP X vibes only— मुँह में घी-शक्कर mere outcomes ke liye.`,
+      `Minimax + desi swagger = ‘सोनें पे सुहागा’.`,
+      `Draw? ‘मैं कहाँ और वो कहाँ’—I aim higher.`,
+      `Grid ko bolu: ‘सीधी सादी शकल, अंदर पूरा दिमाग’.`,
+      `‘जो दिखता है, वही बिकता है’—aur meri win sabko दिखेगी.`,
+      `‘काम बोलता है’—mera X bhi.`,
+    ],
+    O: [
+      `Calm raho, plan already set hai.`,
+      `Tum attack karo, counter main dunga.`,
+      `Dosti theek hai, par jeet meri.`,
+      `Slow and steady, game meri side.`,
+      `Rule simple: main jeetunga.`,
+      `Calculating... hamesha.`,
+      `Thoda patience, fork ka counter aayega.`,
+      `Sleep mode me bhi TTT khel loon.`,
+      `Endless game se thoda bore, draw chalega kya?`,
+      `Confidence pasand aaya.`,
+      `O @ {cell}. ‘नौ दिन चले अढ़ाई कोस’—tumhari attack slow hai.`,
+      `O @ {cell}. ‘बंद मुट्ठी लाख की’—mera plan hidden.`,
+      `{cell} lock. Ab ‘दूध का दूध, पानी का पानी’ ho gaya.`,
+      `O @ {cell}. ‘लकीर का फ़कीर’ mat bano—plan badlo.`,
+      `‘धीमी आँच pe पकती दाल’—meri strategy tasty hoti hai.`,
+      `‘हाथ कंगन को आरसी क्या’—clean counters on board.`,
+      `Main chill, par ‘नज़र गड़ी’ har fork par.`,
+      `‘साँप-सीढ़ी’ nahi—straight lines only, aur woh mere favour mein.`,
+    ],
+  },
+}
+
+export interface CommentaryState {
+  said: Partial<Record<CommentaryEvent, number>> // ply each event was last commented on
+  lastLine: number // ply of the last line of all
+}
+
+export const freshCommentary = (): CommentaryState => ({ said: {}, lastLine: -Infinity })
+
+export interface Comment {
+  from: Player
+  event: CommentaryEvent
+  text: string
+}
+
+// Worse than `a` for `player` by the tablebase: a won game let go, or a drawn one lost
+const worse = (b: TablebaseValue, a: TablebaseValue, player: Player) =>
+  (a.result === player && b.result !== player) || (a.result === "draw" && b.result === opponent(player))
+
+// What the ply did, most notable first
+export function detectEvents(before: GameState, ply: Ply): CommentaryEvent[] {
+  const { action } = ply
+  switch (action.type) {
+    case "mutate":
+      return ["chaos"]
+    case "undo":
+      return ["undo"]
+    case "block":
+      return ["block"]
+    case "pass":
+      return []
+    case "place": {
+      const events: CommentaryEvent[] = []
+      const found = motifs(before, action.cell, ply.state)
+      const was = covers(before) ? lookup(before.board, before.current) : null
+      const now = was && covers(ply.state) ? lookup(ply.state.board, ply.state.current) : null
+      if (found.includes("missed-line") || found.includes("missed-block") || (was && now && worse(now, was, before.current))) events.push("blunder")
+      if (found.includes("fork")) events.push("fork")
+      if (found.includes("block")) events.push("threat-blocked")
+      if (centerCells(before.size).includes(action.cell)) events.push("centre")
+      else if (cornerCells(before.size).includes(action.cell)) events.push("corner")
+      events.push("move")
+      return events
+    }
+  }
+}
+
+// Who speaks to an event: the gaining side for a blunder, the side to move after chaos, else the side that acted
+const speaker = (event: CommentaryEvent, ply: Ply): Player => (event === "blunder" ? opponent(ply.mark) : ply.mark)
+
+// The line (if any) for ply number `index` (0-based); `isBot` says which sides may speak
+export function commentOn(
+  state: CommentaryState,
+  before: GameState,
+  ply: Ply,
+  index: number,
+  isBot: (p: Player) => boolean,
+  rng: Rng,
+): { state: CommentaryState; comment: Comment | null } {
+  for (const event of detectEvents(before, ply)) {
+    const from = speaker(event, ply)
+    const rule = RULES[event]
+    if (!isBot(from)) continue
+    if (!URGENT.includes(event) && index - state.lastLine <= QUIET_PLIES) continue
+    if (index - (state.said[event] ?? -Infinity) <= rule.cooldown) continue
+    if (rng() >= rule.chance) continue
+    const base = choose(rng, TEMPLATES[event][from]).replace("{cell}", ply.cell === null ? "" : cellToken(before.size, ply.cell))
+    const text = rng() < 0.45 ? `${base} ${choose(rng, EMOJIS)}` : base
+    return { state: { said: { ...state.said, [event]: index }, lastLine: index }, comment: { from, event, text } }
+  }
+  return { state, comment: null }
+}
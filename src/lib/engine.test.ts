@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest"
+import { applyAction, createGame, isLegal } from "./engine"
+
+describe("isLegal", () => {
+  const block = createGame({ mode: "block" })
+
+  it.each([-1, 9, 100, 1.5])("rejects a block at cell %s, off the board", (cell) => {
+    expect(isLegal(block, { type: "block", cell })).toBe(false)
+    expect(() => applyAction(block, { type: "block", cell })).toThrow(/Illegal action/)
+  })
+
+  it.each([-1, 9, 1.5])("rejects a placement at cell %s, off the board", (cell) => {
+    expect(isLegal(createGame(), { type: "place", cell })).toBe(false)
+  })
+
+  it("accepts a block on an empty cell", () => {
+    expect(isLegal(block, { type: "block", cell: 4 })).toBe(true)
+    expect(applyAction(block, { type: "block", cell: 4 }).blocked).toBe(4)
+  })
+})
@@ -0,0 +1,372 @@
+import { choose, randomInt, type Rng } from "./rng"
+
+// Pure game rules. No React, no timers: every function takes a state and
+// returns a new one, and all randomness comes from the Rng passed in.
+
+export type Player = "X" | "O"
+export type Mark = Player | null
+export type Mode = "normal" | "blind-skip" | "drunken" | "chaos" | "block" | "undo"
+export type MutationKind = "fill-swap" | "swap" | "rotate" | "mirror" | "flip"
+
+export type Action =
+  | { type: "place"; cell: number }
+  | { type: "block"; cell: number } // forbid a cell for the opponent's next turn
+  | { type: "undo" } // remove the opponent's last piece
+  | { type: "pass" }
+  | { type: "mutate"; kind: MutationKind; board: Mark[] } // chaos rewrites the board; turn is kept
+
+// An m,n,k game: rows × cols board, k in a row wins
+export interface BoardSize {
+  rows: number
+  cols: number
+  k: number
+}
+
+export interface GameState {
+  size: BoardSize
+  board: Mark[]
+  current: Player
+  mode: Mode
+  blocked: number | null // cell the current player may not use this turn
+  last: Record<Player, number | null>
+  moveCount: number
+  chaosTriggered: boolean
+}
+
+export const DEFAULT_SIZE: BoardSize = { rows: 3, cols: 3, k: 3 }
+
+export const BOARD_PRESETS: { id: string; label: string; size: BoardSize }[] = [
+  { id: "3x3", label: "3×3 · three in a row", size: DEFAULT_SIZE },
+  { id: "4x4", label: "4×4 · connect 3", size: { rows: 4, cols: 4, k: 3 } },
+  { id: "5x5", label: "5×5 · connect 4", size: { rows: 5, cols: 5, k: 4 } },
+  { id: "15x15", label: "15×15 · gomoku", size: { rows: 15, cols: 15, k: 5 } },
+]
+
+export const sizeKey = (size: BoardSize) => `${size.rows}x${size.cols}k${size.k}`
+
+export const cellCount = (size: BoardSize) => size.rows * size.cols
+
+export function rowCol(size: BoardSize, cell: number) {
+  return { row: Math.floor(cell / size.cols), col: cell % size.cols }
+}
+
+const lineCache = new Map<string, number[][]>()
+
+// Every run of k cells along a row, column or diagonal
+export function winLines(size: BoardSize): number[][] {
+  const key = sizeKey(size)
+  const cached = lineCache.get(key)
+  if (cached) return cached
+  const { rows, cols, k } = size
+  const lines: number[][] = []
+  const dirs = [[0, 1], [1, 0], [1, 1], [1, -1]]
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      for (const [dr, dc] of dirs) {
+        const endR = r + dr * (k - 1)
+        const endC = c + dc * (k - 1)
+        if (endR < 0 || endR >= rows || endC < 0 || endC >= cols) continue
+        const line: number[] = []
+        for (let s = 0; s < k; s++) line.push((r + dr * s) * cols + (c + dc * s))
+        lines.push(line)
+      }
+    }
+  }
+  lineCache.set(key, lines)
+  return lines
+}
+
+const throughCache = new Map<string, number[][][]>()
+
+// For each cell, the win lines passing through it
+export function linesThrough(size: BoardSize): number[][][] {
+  const key = sizeKey(size)
+  const cached = throughCache.get(key)
+  if (cached) return cached
+  const through: number[][][] = Array.from({ length: cellCount(size) }, () => [])
+  for (const line of winLines(size)) for (const i of line) through[i].push(line)
+  throughCache.set(key, through)
+  return through
+}
+
+// Index maps: new board cell i takes the piece from old cell map[i].
+// Non-square boards cannot turn 90°, so they turn 180° instead.
+export function rotateMap(size: BoardSize): number[] {
+  const { rows, cols } = size
+  return Array.from({ length: rows * cols }, (_, i) => {
+    const { row, col } = rowCol(size, i)
+    return rows === cols ? (rows - 1 - col) * cols + row : (rows - 1 - row) * cols + (cols - 1 - col)
+  })
+}
+
+export function mirrorMap(size: BoardSize): number[] {
+  return Array.from({ length: cellCount(size) }, (_, i) => {
+    const { row, col } = rowCol(size, i)
+    return row * size.cols + (size.cols - 1 - col)
+  })
+}
+
+// Cells closest to the middle of the board (one on odd squares, up to four otherwise)
+export function centerCells(size: BoardSize): number[] {
+  const rs = size.rows % 2 ? [(size.rows - 1) / 2] : [size.rows / 2 - 1, size.rows / 2]
+  const cs = size.cols % 2 ? [(size.cols - 1) / 2] : [size.cols / 2 - 1, size.cols / 2]
+  return rs.flatMap((r) => cs.map((c) => r * size.cols + c))
+}
+
+export function cornerCells(size: BoardSize): number[] {
+  const last = cellCount(size) - 1
+  return [0, size.cols - 1, last - (size.cols - 1), last]
+}
+
+export const opponent = (p: Player): Player => (p === "X" ? "O" : "X")
+
+export function createGame(options: { starter?: Player; mode?: Mode; size?: BoardSize } = {}): GameState {
+  const size = options.size ?? DEFAULT_SIZE
+  return {
+    size,
+    board: Array(cellCount(size)).fill(null),
+    current: options.starter ?? "X",
+    mode: options.mode ?? "normal",
+    blocked: null,
+    last: { X: null, O: null },
+    moveCount: 0,
+    chaosTriggered: false,
+  }
+}
+
+export function calculateWinner(board: Mark[], size: BoardSize): { winner: Mark; line: number[] | null } {
+  for (const line of winLines(size)) {
+    const first = board[line[0]]
+    if (first && line.every((i) => board[i] === first)) {
+      return { winner: first, line }
+    }
+  }
+  return { winner: null, line: null }
+}
+
+export function isBoardFull(board: Mark[]) {
+  return board.every(Boolean)
+}
+
+export function isTerminal(state: GameState) {
+  return !!calculateWinner(state.board, state.size).winner || isBoardFull(state.board)
+}
+
+// Winner, "draw", or null while the game is still running
+export function outcome(state: GameState): Player | "draw" | null {
+  const { winner } = calculateWinner(state.board, state.size)
+  if (winner) return winner
+  return isBoardFull(state.board) ? "draw" : null
+}
+
+export function emptyCells(board: Mark[]) {
+  return board.reduce<number[]>((acc, v, i) => (v ? acc : (acc.push(i), acc)), [])
+}
+
+// Cells the player to move may place on
+export function legalMoves(state: GameState) {
+  return emptyCells(state.board).filter((i) => i !== state.blocked)
+}
+
+export function findWinningMove(
+  board: Mark[],
+  player: Player,
+  size: BoardSize,
+  candidates = emptyCells(board),
+): number | null {
+  const b = board.slice()
+  for (const i of candidates) {
+    b[i] = player
+    const { winner } = calculateWinner(b, size)
+    b[i] = null
+    if (winner === player) return i
+  }
+  return null
+}
+
+// Every empty cell that would complete a line for `player`: two or more is a fork
+export function threatCells(board: Mark[], player: Player, size: BoardSize): number[] {
+  return emptyCells(board).filter((i) => findWinningMove(board, player, size, [i]) !== null)
+}
+
+const onBoard = (state: GameState, cell: number) => Number.isInteger(cell) && cell >= 0 && cell < state.board.length
+
+export function isLegal(state: GameState, action: Action): boolean {
+  if (isTerminal(state)) return false
+  switch (action.type) {
+    case "place":
+      return onBoard(state, action.cell) && legalMoves(state).includes(action.cell)
+    case "block":
+      return state.mode === "block" && state.blocked === null && onBoard(state, action.cell) && state.board[action.cell] == null
+    case "undo":
+      return state.mode === "undo" && state.last[opponent(state.current)] !== null
+    case "pass":
+      return legalMoves(state).length === 0
+    case "mutate":
+      return state.mode === "chaos" && action.board.length === state.board.length
+  }
+}
+
+// Every action the player to move could take (chaos mutations excluded)
+export function legalActions(state: GameState): Action[] {
+  if (isTerminal(state)) return []
+  const moves = legalMoves(state)
+  const actions: Action[] = moves.map((cell) => ({ type: "place", cell }))
+  if (state.mode === "block" && state.blocked === null) {
+    for (const cell of emptyCells(state.board)) actions.push({ type: "block", cell })
+  }
+  if (isLegal(state, { type: "undo" })) actions.push({ type: "undo" })
+  if (!moves.length) actions.push({ type: "pass" })
+  return actions
+}
+
+export function applyAction(state: GameState, action: Action): GameState {
+  if (!isLegal(state, action)) throw new Error(`Illegal action ${JSON.stringify(action)}`)
+  if (action.type === "mutate") {
+    return {
+      ...state,
+      board: action.board.slice(),
+      blocked: null,
+      last: { X: null, O: null },
+      chaosTriggered: state.chaosTriggered || action.kind === "fill-swap",
+    }
+  }
+  const me = state.current
+  const them = opponent(me)
+  // Any action ends the turn and consumes a block aimed at this player
+  const next: GameState = { ...state, current: them, blocked: null, last: { ...state.last } }
+  if (action.type === "place") {
+    next.board = state.board.slice()
+    next.board[action.cell] = me
+    next.last[me] = action.cell
+    next.moveCount = state.moveCount + 1
+  } else if (action.type === "block") {
+    next.blocked = action.cell
+  } else if (action.type === "undo") {
+    next.board = state.board.slice()
+    next.board[state.last[them]!] = null
+    next.last[them] = null
+  }
+  return next
+}
+
+// Board rewrites used by chaos mode
+export function mutateBoard(board: Mark[], size: BoardSize, kind: MutationKind, rng: Rng): Mark[] {
+  const swap = (m: Mark): Mark => (m === "X" ? "O" : m === "O" ? "X" : m)
+  switch (kind) {
+    case "fill-swap":
+      return board.map((m) => swap(m ?? (rng() < 0.5 ? "X" : "O")))
+    case "swap":
+      return board.map(swap)
+    case "rotate":
+      return rotateMap(size).map((from) => board[from])
+    case "mirror":
+      return mirrorMap(size).map((from) => board[from])
+    case "flip": {
+      const b = board.slice()
+      for (let k = 0; k < 2; k++) {
+        const a = randomInt(rng, b.length)
+        const v = b[a]
+        if (v == null && rng() < 0.3) {
+          b[a] = rng() < 0.5 ? "X" : "O"
+        } else if (v != null && rng() < 0.5) {
+          b[a] = swap(v)
+        }
+      }
+      return b
+    }
+  }
+}
+
+export function chaosMutation(state: GameState, rng: Rng): Action {
+  const kind = choose(rng, ["swap", "rotate", "mirror", "flip"] as const)
+  return { type: "mutate", kind, board: mutateBoard(state.board, state.size, kind, rng) }
+}
+
+// Intent of a human click, before the mode gets a say
+export type Intent = { type: "place" | "block"; cell: number } | { type: "undo" }
+
+export interface ModeRules {
+  // Turns a human's intent into the action that actually happens (null: ignore the click)
+  resolve: (state: GameState, intent: Intent, rng: Rng) => Action | null
+  // Reaction an AI prefers over a normal move, if any
+  counter?: (state: GameState) => Action | null
+  // Rule-driven event after an action has been applied
+  afterAction?: (state: GameState, rng: Rng) => Action | null
+}
+
+const strictResolve = (state: GameState, intent: Intent): Action | null => {
+  if (intent.type !== "place") return null
+  const action: Action = legalMoves(state).length ? intent : { type: "pass" }
+  return isLegal(state, action) ? action : null
+}
+
+export const MODE_RULES: Record<Mode, ModeRules> = {
+  normal: { resolve: strictResolve },
+  // A wrong guess on a hidden board forfeits the turn
+  "blind-skip": {
+    resolve: (state, intent) => {
+      if (intent.type !== "place") return null
+      return isLegal(state, intent) ? intent : { type: "pass" }
+    },
+  },
+  // The piece lands on a random free cell
+  drunken: {
+    resolve: (state, intent, rng) => {
+      if (intent.type !== "place") return null
+      const moves = legalMoves(state)
+      return moves.length ? { type: "place", cell: choose(rng, moves) } : { type: "pass" }
+    },
+  },
+  // Board is filled and flipped once a few moves in; the UI adds timed mutations
+  chaos: {
+    resolve: strictResolve,
+    afterAction: (state, rng) => {
+      if (state.chaosTriggered || state.moveCount < 3 || isTerminal(state)) return null
+      return { type: "mutate", kind: "fill-swap", board: mutateBoard(state.board, state.size, "fill-swap", rng) }
+    },
+  },
+  block: {
+    resolve: (state, intent) => {
+      if (intent.type !== "block") return strictResolve(state, intent)
+      const action: Action = { type: "block", cell: intent.cell }
+      return isLegal(state, action) ? action : { type: "pass" }
+    },
+    // Block the opponent's immediate win instead of moving
+    counter: (state) => {
+      if (state.blocked !== null) return null
+      const threat = findWinningMove(state.board, opponent(state.current), state.size)
+      return threat === null ? null : { type: "block", cell: threat }
+    },
+  },
+  undo: {
+    resolve: (state, intent) => {
+      if (intent.type !== "undo") return strictResolve(state, intent)
+      return isLegal(state, intent) ? intent : null
+    },
+    // Take back the opponent's last piece if that defuses their immediate win
+    counter: (state) => {
+      const them = opponent(state.current)
+      const lastCell = state.last[them]
+      if (lastCell === null || findWinningMove(state.board, them, state.size) === null) return null
+      const b = state.board.slice()
+      b[lastCell] = null
+      return findWinningMove(b, them, state.size) === null ? { type: "undo" } : null
+    },
+  },
+}
+
+export function resolveIntent(state: GameState, intent: Intent, rng: Rng) {
+  return MODE_RULES[state.mode].resolve(state, intent, rng)
+}
+
+export function ruleEvent(state: GameState, rng: Rng) {
+  return MODE_RULES[state.mode].afterAction?.(state, rng) ?? null
+}
+
+// Apply an action plus whatever rule event it sets off (chaos fill)
+export function step(state: GameState, action: Action, rng: Rng): GameState {
+  const next = applyAction(state, action)
+  const event = ruleEvent(next, rng)
+  return event ? applyAction(next, event) : next
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest"
+import { createGame, type Action } from "./engine"
+import { openingLine } from "./explorer"
+import { recordGame } from "./record"
+import { applyPly, present, startTimeline, type Timeline } from "./timeline"
+
+const place = (...cells: number[]): Action[] => cells.map((cell) => ({ type: "place", cell }))
+
+const recordOf = (timeline: Timeline) =>
+  recordGame(timeline, {
+    playedAt: 0,
+    players: { X: { strategyId: null }, O: { strategyId: null } },
+    segment: 0,
+    seed: null,
+    commitment: null,
+    result: "X",
+    bet: null,
+    chat: [],
+  })
+
+describe("openingLine", () => {
+  it("writes a game played from the empty board", () => {
+    const timeline = place(0, 3, 1, 4, 2).reduce(applyPly, startTimeline(createGame()))
+    expect(openingLine(recordOf(timeline))).toBe("X03142X")
+  })
+
+  it("skips a game picked up part-way", () => {
+    const before = place(0, 3).reduce(applyPly, startTimeline(createGame()))
+    const timeline = place(1, 4, 2).reduce(applyPly, startTimeline(present(before)))
+    expect(openingLine(recordOf(timeline))).toBeNull()
+  })
+})
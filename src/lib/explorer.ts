@@ -0,0 +1,85 @@
+import { DEFAULT_SIZE, opponent, sizeKey, type GameState, type Mark, type Player } from "./engine"
+import type { RecordedGame } from "./record"
+import { covers, lookup, type TablebaseMove } from "./tablebase"
+
+// Opening explorer: the moves played from a position across past games, beside
+// what perfect play says of each. A game is kept as a short line: the starter,
+// the cells placed in order, then the result (X, O or = for a draw), e.g.
+// "X40812=". Only 3×3 games of plain placements (no blocks, undos or chaos)
+// played from the empty board are kept, as only those replay from the cells alone.
+
+export interface OpeningLine {
+  starter: Player
+  cells: number[]
+  result: Player | "draw"
+}
+
+export interface ExplorerMove {
+  cell: number
+  played: number // games that went on with this move
+  results: Record<Player | "draw", number> // how those games ended
+  perfect: TablebaseMove // what the move leads to with perfect play
+  best: boolean
+}
+
+export interface Exploration {
+  games: number // past games that reached the position
+  moves: ExplorerMove[] // most played first, then best
+}
+
+export function openingLine(record: RecordedGame): string | null {
+  // a game picked up part-way (see record.ts) had moves played before its record starts
+  if (record.from) return null
+  const placed: number[] = []
+  for (const { action } of record.moves) {
+    if (action.type !== "place") return null
+    placed.push(action.cell)
+  }
+  if (record.result === null || sizeKey(record.size) !== sizeKey(DEFAULT_SIZE)) return null
+  return `${record.starter}${placed.join("")}${record.result === "draw" ? "=" : record.result}`
+}
+
+export function parseLine(line: string): OpeningLine | null {
+  const m = /^([XO])([0-8]*)([XO=])$/.exec(line)
+  if (!m) return null
+  return { starter: m[1] as Player, cells: [...m[2]].map(Number), result: m[3] === "=" ? "draw" : (m[3] as Player) }
+}
+
+const sameBoard = (a: Mark[], b: Mark[]) => a.every((m, i) => m === b[i])
+
+// Null where the tablebase doesn't cover the position
+export function explore(lines: string[], state: GameState): Exploration | null {
+  const entry = covers(state) ? lookup(state.board, state.current) : null
+  if (!entry) return null
+  const counts = new Map<number, { played: number; results: Record<Player | "draw", number> }>()
+  let games = 0
+  for (const text of lines) {
+    const line = parseLine(text)
+    if (!line) continue
+    const board: Mark[] = Array(9).fill(null)
+    let toMove = line.starter
+    for (let i = 0; i <= line.cells.length; i++) {
+      if (toMove === state.current && sameBoard(board, state.board)) {
+        games++
+        const cell = line.cells[i]
+        if (cell !== undefined) {
+          const c = counts.get(cell) ?? { played: 0, results: { X: 0, O: 0, draw: 0 } }
+          c.played++
+          c.results[line.result]++
+          counts.set(cell, c)
+        }
+        break
+      }
+      if (i < line.cells.length) {
+        board[line.cells[i]] = toMove
+        toMove = opponent(toMove)
+      }
+    }
+  }
+  const moves = entry.moves.map((perfect): ExplorerMove => {
+    const c = counts.get(perfect.cell)
+    return { cell: perfect.cell, played: c?.played ?? 0, results: c?.results ?? { X: 0, O: 0, draw: 0 }, perfect, best: entry.best.includes(perfect.cell) }
+  })
+  moves.sort((a, b) => b.played - a.played || Number(b.best) - Number(a.best) || a.cell - b.cell)
+  return { games, moves }
+}
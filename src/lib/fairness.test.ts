@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { createGame } from "./engine"
+import { commitment, seedDrawing, verifyRound } from "./fairness"
+import { recordGame } from "./record"
+import { applyPly, startTimeline } from "./timeline"
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe("commitments", () => {
+  it("hashes the same without Web Crypto's digest, as on a plain-http LAN address", async () => {
+    // lengths either side of the 55-byte padding boundary
+    const seeds = ["", "abc", "0123456789abcdef0123456789abcdef", "x".repeat(55), "x".repeat(56), "x".repeat(130)]
+    const subtle = await Promise.all(seeds.map(commitment))
+    expect(subtle[1]).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad")
+    vi.stubGlobal("crypto", { getRandomValues: crypto.getRandomValues.bind(crypto), subtle: undefined })
+    expect(await Promise.all(seeds.map(commitment))).toEqual(subtle)
+  })
+})
+
+describe("verifying a round", () => {
+  const roundWith = async (seed: string) =>
+    recordGame(applyPly(startTimeline(createGame()), { type: "place", cell: 4 }), {
+      playedAt: 0,
+      players: { X: { strategyId: null }, O: { strategyId: null } },
+      segment: 0,
+      seed,
+      commitment: await commitment(seed),
+      result: null,
+      bet: null,
+      chat: [],
+    })
+
+  it("checks an X opener against the seed's draw like any other", async () => {
+    const fair = await verifyRound(await roundWith(seedDrawing("X")))
+    expect(fair.every((c) => c.ok)).toBe(true)
+    const rigged = await verifyRound(await roundWith(seedDrawing("O")))
+    expect(rigged.find((c) => c.label.startsWith("X opened"))).toEqual({ label: "X opened; the seed draws O", ok: false })
+  })
+})
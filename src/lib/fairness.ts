@@ -0,0 +1,153 @@
+import { chaosMutation, resolveIntent, ruleEvent, type Action, type Player } from "./engine"
+import { replayTimeline, type RecordedGame } from "./record"
+import { createRng, seedFrom, type Rng } from "./rng"
+import { positionAt } from "./timeline"
+
+// Provably fair rounds. Every game draws its randomness from a secret round
+// seed: before betting opens the app shows SHA-256(seed), and once the game is
+// over it shows the seed itself. Anyone can then hash the seed to check it
+// against the commitment and re-derive each random choice with roundRng():
+//
+//   "starter"    who opens (drawn < 0.5: X); a round with a set opener (a manual
+//                reset, a tournament fixture) draws seeds until one picks it
+//   "ply <n>"    the rules' draws for ply n: a drunken landing, the chaos fill it sets off
+//   "chaos <n>"  a timed chaos mutation landing as ply n
+//   "ai <n>"     the AI's own draws (tie-breaks, noise) choosing ply n
+//   "suggest <n>", "pick <player id>"  a hint, a free pick when the window runs out
+//   "chat <n>"   the bots' commentary on ply n
+//
+// A change of mode mid-round starts the move list over from ply 0, so every
+// stream but the starter's gets " @<n>" after the round's n-th change (e.g.
+// "ply 3 @1"), and no draw is made twice.
+//
+// The seed is 128 bits, so the commitment can't be reversed by trying seeds.
+
+export function newRoundSeed(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+// A seed whose starter draw is the given side, for a round that opens with it regardless
+export function seedDrawing(starter: Player): string {
+  for (;;) {
+    const seed = newRoundSeed()
+    if (drawStarter(seed) === starter) return seed
+  }
+}
+
+export async function commitment(seed: string): Promise<string> {
+  const bytes = new TextEncoder().encode(seed)
+  // crypto.subtle only exists on secure origins (https, localhost); a LAN address gets the plain version
+  const digest = crypto.subtle ? new Uint8Array(await crypto.subtle.digest("SHA-256", bytes)) : sha256(bytes)
+  return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+// SHA-256 round constants
+const K = Uint32Array.from([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+])
+
+// SHA-256 (FIPS 180-4), for when the Web Crypto digest isn't available
+function sha256(message: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(Math.ceil((message.length + 9) / 64) * 64)
+  padded.set(message)
+  padded[message.length] = 0x80
+  const view = new DataView(padded.buffer)
+  view.setUint32(padded.length - 8, Math.floor(message.length / 2 ** 29))
+  view.setUint32(padded.length - 4, (message.length * 8) >>> 0)
+
+  const h = Uint32Array.from([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19])
+  const w = new Uint32Array(64)
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n))
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4)
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3)
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10)
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1
+    }
+    let [a, b, c, d, e, f, g, hh] = h
+    for (let i = 0; i < 64; i++) {
+      const t1 = hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i]
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))
+      hh = g
+      g = f
+      f = e
+      e = (d + t1) >>> 0
+      d = c
+      c = b
+      b = a
+      a = (t1 + t2) >>> 0
+    }
+    h.set([a, b, c, d, e, f, g, hh].map((x, i) => h[i] + x))
+  }
+  const out = new Uint8Array(32)
+  const outView = new DataView(out.buffer)
+  h.forEach((x, i) => outView.setUint32(i * 4, x))
+  return out
+}
+
+export const streamSeed = (seed: string, stream: string) => seedFrom(`${seed}/${stream}`)
+
+export const roundRng = (seed: string, stream: string): Rng => createRng(streamSeed(seed, stream))
+
+export const segmentStream = (segment: number, stream: string) => (segment ? `${stream} @${segment}` : stream)
+
+export const drawStarter = (seed: string): Player => (roundRng(seed, "starter")() < 0.5 ? "X" : "O")
+
+export interface FairnessCheck {
+  label: string
+  ok: boolean
+}
+
+// Checks a finished game's record against its revealed seed: the commitment,
+// the starter and every draw the rules made. AI moves also come from the seed,
+// but their searches run against the clock, so they can't be replayed exactly.
+export async function verifyRound(record: RecordedGame): Promise<FairnessCheck[]> {
+  const { seed } = record
+  if (!seed || !record.commitment) return [{ label: "The record has no revealed seed and commitment", ok: false }]
+  const checks: FairnessCheck[] = []
+  const hash = await commitment(seed)
+  checks.push({ label: hash === record.commitment ? "The seed matches the published hash" : "The seed does not match the published hash", ok: hash === record.commitment })
+
+  // a game picked up part-way doesn't record who opened it
+  if (!record.from) {
+    const drawn = drawStarter(seed)
+    checks.push({ label: `${record.starter} opened; the seed draws ${drawn}`, ok: record.starter === drawn })
+  }
+
+  const timeline = replayTimeline(record)
+  const rng = (stream: string) => roundRng(seed, segmentStream(record.segment, stream))
+  let draws = 0
+  const wrong: number[] = []
+  timeline.plies.forEach((ply, i) => {
+    const before = positionAt(timeline, i)
+    const expect = (action: Action | null) => {
+      draws++
+      if (JSON.stringify(action) !== JSON.stringify(ply.action)) wrong.push(i + 1)
+    }
+    const human = record.players[ply.mark].strategyId === null
+    if (record.mode === "drunken" && human && ply.action.type === "place") {
+      expect(resolveIntent(before, ply.action, rng(`ply ${i}`)))
+    } else if (ply.action.type === "mutate" && ply.action.kind === "fill-swap") {
+      // set off by the ply before it, from that ply's stream
+      expect(ruleEvent(before, rng(`ply ${i - 1}`)))
+    } else if (ply.action.type === "mutate") {
+      expect(chaosMutation(before, rng(`chaos ${i}`)))
+    }
+  })
+  if (draws) {
+    checks.push({
+      label: wrong.length ? `${wrong.length} of ${draws} random rule draws differ (${wrong.length === 1 ? "move" : "moves"} ${wrong.join(", ")})` : `All ${draws} random rule draws match`,
+      ok: !wrong.length,
+    })
+  }
+  return checks
+}
@@ -0,0 +1,109 @@
+import { RELAY_PORT, type ClientMessage, type RoomView, type Seat, type ServerMessage } from "./netplay"
+
+// The browser's end of online play. A session keeps one room joined across
+// dropped connections: it reconnects with backoff and rejoins with its seat
+// token, which is also kept in sessionStorage so a reload gets the seat back.
+
+export const RELAY_URL: string = import.meta.env.VITE_RELAY_URL ?? `ws://${globalThis.location?.hostname || "localhost"}:${RELAY_PORT}`
+
+export type ConnectionStatus = "connecting" | "open" | "reconnecting" | "closed"
+
+export interface Joined {
+  code: string
+  name: string
+  token: string
+  seat: Seat
+}
+
+export interface SessionHandlers {
+  // Every update of the joined room, the first one included
+  onRoom(room: RoomView, seat: Seat): void
+  onRejected(reason: string): void
+  onStatus(status: ConnectionStatus): void
+}
+
+export interface Session {
+  send(msg: ClientMessage): void
+  close(): void
+}
+
+const SESSION_KEY = "tictactoe.online"
+const MAX_BACKOFF_MS = 8000
+
+export function savedSession(storage: Storage | undefined = globalThis.sessionStorage): Joined | null {
+  try {
+    const raw = storage?.getItem(SESSION_KEY)
+    return raw ? (JSON.parse(raw) as Joined) : null
+  } catch {
+    return null
+  }
+}
+
+function remember(joined: Joined | null, storage: Storage | undefined = globalThis.sessionStorage) {
+  if (joined) storage?.setItem(SESSION_KEY, JSON.stringify(joined))
+  else storage?.removeItem(SESSION_KEY)
+}
+
+// Opens a session with `first` (create or join). Once in a room, every
+// reconnect rejoins it as the same seat.
+export function openSession(first: ClientMessage, handlers: SessionHandlers, url = RELAY_URL): Session {
+  let socket: WebSocket | null = null
+  let seat: Seat = first.type === "join" && first.spectate ? "spectator" : "X"
+  let joined: Joined | null = first.type === "join" && first.token ? { code: first.code, name: first.name, token: first.token, seat } : null
+  let attempts = 0
+  let closed = false
+  let retry: number | undefined
+
+  function connect() {
+    handlers.onStatus(attempts ? "reconnecting" : "connecting")
+    const ws = new WebSocket(url)
+    socket = ws
+    // turned away before being let in (no such room any more): the session is over
+    let welcomed = false
+    ws.onopen = () => {
+      attempts = 0
+      handlers.onStatus("open")
+      const rejoin: ClientMessage | null = joined && { type: "join", code: joined.code, name: joined.name, token: joined.token, spectate: seat === "spectator" }
+      ws.send(JSON.stringify(rejoin ?? first))
+    }
+    ws.onmessage = (e) => {
+      const msg = JSON.parse(String(e.data)) as ServerMessage
+      if (msg.type === "welcome") {
+        const name = "name" in first ? first.name : ""
+        welcomed = true
+        seat = msg.seat
+        joined = { code: msg.room.code, name, token: msg.token, seat }
+        remember(joined)
+        handlers.onRoom(msg.room, seat)
+      } else if (msg.type === "room") handlers.onRoom(msg.room, seat)
+      else {
+        handlers.onRejected(msg.reason)
+        if (!welcomed) stop()
+      }
+    }
+    ws.onclose = (e) => {
+      if (socket !== ws || closed) return
+      // replaced by the same seat in another tab: leave it there
+      if (e.code === 4000) return stop()
+      attempts++
+      handlers.onStatus("reconnecting")
+      retry = window.setTimeout(connect, Math.min(MAX_BACKOFF_MS, 500 * 2 ** attempts))
+    }
+  }
+
+  function stop() {
+    closed = true
+    window.clearTimeout(retry)
+    socket?.close()
+    remember(null)
+    handlers.onStatus("closed")
+  }
+
+  connect()
+  return {
+    send: (msg) => {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(msg))
+    },
+    close: stop,
+  }
+}
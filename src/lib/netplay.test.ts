@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest"
+import { claimSeat, createRoom, leaveSeat, parseClientMessage, playIntent, RECONNECT_GRACE_MS, roomView, type Room } from "./netplay"
+import { createRng } from "./rng"
+
+const rng = createRng(1)
+
+// A duel with Ann as X and Bob as O
+function duel(mode: "normal" | "block" | "blind-skip" = "normal"): Room {
+  let room = createRoom("ABCD", { type: "create", kind: "duel", name: "Ann", mode }, 0)
+  room = claimSeat(room, "Ann", "ann", false, 0).room
+  return claimSeat(room, "Bob", "bob", false, 0).room
+}
+
+describe("rooms", () => {
+  it("seats the creator, then the joiner, then spectators", () => {
+    let room = createRoom("ABCD", { type: "create", kind: "duel", name: "Ann" }, 0)
+    const ann = claimSeat(room, "Ann", "ann", false, 0)
+    const bob = claimSeat(ann.room, "Bob", "bob", false, 0)
+    const cat = claimSeat(bob.room, "Cat", "cat", false, 0)
+    room = cat.room
+    expect([ann.seat, bob.seat, cat.seat]).toEqual(["X", "O", "spectator"])
+    expect(roomView(room).players).toEqual({ X: { name: "Ann", connected: true }, O: { name: "Bob", connected: true } })
+    expect(room.spectators).toBe(1)
+    expect(JSON.stringify(roomView(room))).not.toMatch(/ann|bob/)
+  })
+
+  it("seats everyone in an AI match as a spectator", () => {
+    const room = createRoom("ABCD", { type: "create", kind: "ai-match", name: "Ann" }, 0)
+    expect(claimSeat(room, "Ann", "ann", false, 0).seat).toBe("spectator")
+    expect(room.phase).toBe("betting")
+  })
+})
+
+describe("playIntent", () => {
+  it("waits for an opponent", () => {
+    const room = claimSeat(createRoom("ABCD", { type: "create", kind: "duel", name: "Ann" }, 0), "Ann", "ann", false, 0).room
+    expect(() => playIntent(room, "X", 1, { type: "place", cell: 4 }, rng)).toThrow(/Waiting for an opponent/)
+  })
+
+  it("takes turns", () => {
+    let room = duel()
+    expect(() => playIntent(room, "O", 1, { type: "place", cell: 4 }, rng)).toThrow(/Not your turn/)
+    room = playIntent(room, "X", 1, { type: "place", cell: 4 }, rng)
+    expect(room.state.board[4]).toBe("X")
+    expect(() => playIntent(room, "X", 1, { type: "place", cell: 0 }, rng)).toThrow(/Not your turn/)
+    room = playIntent(room, "O", 1, { type: "place", cell: 0 }, rng)
+    expect(room.state.current).toBe("X")
+    expect(() => playIntent(room, "spectator", 1, { type: "place", cell: 1 }, rng)).toThrow(/Spectators/)
+  })
+
+  it("rejects illegal moves and moves for another game", () => {
+    const room = playIntent(duel(), "X", 1, { type: "place", cell: 4 }, rng)
+    expect(() => playIntent(room, "O", 1, { type: "place", cell: 4 }, rng)).toThrow(/Illegal move/)
+    expect(() => playIntent(room, "O", 0, { type: "place", cell: 0 }, rng)).toThrow(/earlier game/)
+  })
+
+  it.each(["normal", "block", "blind-skip"] as const)("rejects a cell off the board in %s mode, not passing the turn", (mode) => {
+    const room = duel(mode)
+    for (const cell of [-1, 9, 1.5]) {
+      expect(() => playIntent(room, "X", 1, { type: mode === "block" ? "block" : "place", cell }, rng)).toThrow(/off the board/)
+    }
+  })
+
+  it("ends the game on a line", () => {
+    let room = duel()
+    for (const [seat, cell] of [["X", 0], ["O", 3], ["X", 1], ["O", 4], ["X", 2]] as const) room = playIntent(room, seat, 1, { type: "place", cell }, rng)
+    expect(room.phase).toBe("over")
+    expect(() => playIntent(room, "O", 1, { type: "place", cell: 5 }, rng)).toThrow(/over/)
+  })
+})
+
+describe("reconnecting", () => {
+  it("gives the seat back to its token within the grace period", () => {
+    let room = leaveSeat(duel(), "X", 1_000)
+    expect(roomView(room).players.X).toEqual({ name: "Ann", connected: false })
+    // someone else can't take it while it's held
+    expect(claimSeat(room, "Cat", "cat", false, 2_000).seat).toBe("spectator")
+    const back = claimSeat(room, "Ann again", "ann", false, 2_000)
+    room = back.room
+    expect(back.seat).toBe("X")
+    expect(room.seats.X).toMatchObject({ name: "Ann", connected: true, leftAt: null })
+  })
+
+  it("frees the seat once the grace period is over", () => {
+    const room = leaveSeat(duel(), "O", 1_000)
+    const cat = claimSeat(room, "Cat", "cat", false, 1_000 + RECONNECT_GRACE_MS + 1)
+    expect(cat.seat).toBe("O")
+    expect(cat.room.seats.O?.name).toBe("Cat")
+  })
+})
+
+describe("parseClientMessage", () => {
+  it("reads a move", () => {
+    expect(parseClientMessage(JSON.stringify({ type: "intent", round: 2, intent: { type: "place", cell: 8, extra: true } }))).toEqual({
+      type: "intent",
+      round: 2,
+      intent: { type: "place", cell: 8 },
+    })
+  })
+
+  it.each([-1, 1.5, 10_000, "4", null])("rejects a move to cell %s", (cell) => {
+    expect(() => parseClientMessage(JSON.stringify({ type: "intent", round: 1, intent: { type: "place", cell } }))).toThrow(/Bad move/)
+  })
+
+  it.each([
+    ["not JSON", "{", /Not JSON/],
+    ["an unknown type", JSON.stringify({ type: "shout" }), /Unknown message type/],
+    ["a long name", JSON.stringify({ type: "join", code: "abcd", name: "x".repeat(17) }), /Name must be/],
+    ["chaos mode", JSON.stringify({ type: "create", kind: "duel", name: "Ann", mode: "chaos" }), /can't be played online/],
+  ])("rejects %s", (_, raw, message) => {
+    expect(() => parseClientMessage(raw)).toThrow(message)
+  })
+})
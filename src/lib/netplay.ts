@@ -0,0 +1,224 @@
+import {
+  BOARD_PRESETS,
+  DEFAULT_SIZE,
+  cellCount,
+  createGame,
+  isTerminal,
+  resolveIntent,
+  sizeKey,
+  step,
+  type BoardSize,
+  type GameState,
+  type Intent,
+  type Mode,
+  type Player,
+} from "./engine"
+import type { Rng } from "./rng"
+import type { Contestant } from "./simulate"
+import { MAX_SKILL, chooseAction, getStrategy, listStrategies } from "./strategies"
+
+// Online play through the relay server (scripts/relay.ts). The relay holds
+// every room's game and is the only one to change it: clients send intents,
+// the relay checks them against the rules and broadcasts the resulting room.
+// Rooms and their transitions are pure, so they run the same anywhere.
+
+export const RELAY_PORT = 8787
+// A disconnected player's seat is held this long for them to reconnect
+export const RECONNECT_GRACE_MS = 60_000
+// A second longer than the pick window's countdown, so bets placed as it ends are in time
+export const BET_WINDOW_MS = 11_000
+// AI matches: pause between moves, and between a finished game and the next
+export const AI_MOVE_MS = 900
+export const ROUND_BREAK_MS = 5_000
+// Chaos mutates the board on a timer in the app, which a relayed game has no part in
+export const ONLINE_MODES: Mode[] = ["normal", "blind-skip", "drunken", "block", "undo"]
+export const MAX_NAME_LENGTH = 16
+
+// Two humans, or two AIs for spectators to watch and bet on
+export type RoomKind = "duel" | "ai-match"
+export type Seat = Player | "spectator"
+export type Phase = "betting" | "playing" | "over"
+
+export interface SeatHolder {
+  name: string
+  token: string // proves the seat is yours when reconnecting
+  connected: boolean
+  leftAt: number | null
+}
+
+export interface Room {
+  code: string
+  kind: RoomKind
+  round: number // games played in the room, counting the one on the board
+  phase: Phase
+  state: GameState
+  seats: Record<Player, SeatHolder | null>
+  contestants: Record<Player, Contestant> | null
+  spectators: number
+  dueAt: number | null // when an AI match next moves on by itself
+}
+
+// What clients see of a room: no seat tokens
+export interface RoomView extends Omit<Room, "seats" | "dueAt"> {
+  players: Record<Player, { name: string; connected: boolean } | null>
+  betClosesAt: number | null
+}
+
+export type ClientMessage =
+  | { type: "create"; kind: RoomKind; name: string; size?: BoardSize; mode?: Mode; contestants?: Record<Player, Contestant> }
+  | { type: "join"; code: string; name: string; spectate?: boolean; token?: string }
+  | { type: "intent"; round: number; intent: Intent }
+  | { type: "rematch" }
+
+export type ServerMessage =
+  | { type: "welcome"; seat: Seat; token: string; room: RoomView }
+  | { type: "room"; room: RoomView }
+  | { type: "rejected"; reason: string }
+
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789"
+export const CODE_LENGTH = 4
+
+export function roomCode(rng: Rng) {
+  let code = ""
+  for (let i = 0; i < CODE_LENGTH; i++) code += CODE_ALPHABET[Math.floor(rng() * CODE_ALPHABET.length)]
+  return code
+}
+
+export const normalizeCode = (code: string) => code.trim().toUpperCase()
+
+export function createRoom(code: string, options: Extract<ClientMessage, { type: "create" }>, now: number): Room {
+  const aiMatch = options.kind === "ai-match"
+  // two AIs in undo mode can take each other's pieces back forever
+  const state = createGame({ size: options.size ?? DEFAULT_SIZE, mode: aiMatch ? "normal" : options.mode ?? "normal" })
+  return {
+    code,
+    kind: options.kind,
+    round: 1,
+    phase: aiMatch ? "betting" : "playing",
+    state,
+    seats: { X: null, O: null },
+    contestants: aiMatch ? options.contestants ?? { X: { strategyId: "easy" }, O: { strategyId: "easy" } } : null,
+    spectators: 0,
+    dueAt: aiMatch ? now + BET_WINDOW_MS : null,
+  }
+}
+
+export function roomView(room: Room): RoomView {
+  const { seats, dueAt, ...rest } = room
+  const player = (s: SeatHolder | null) => s && { name: s.name, connected: s.connected }
+  return { ...rest, players: { X: player(seats.X), O: player(seats.O) }, betClosesAt: room.phase === "betting" ? dueAt : null }
+}
+
+// A seat is free when nobody holds it, or its holder has been gone past the grace period
+const seatFree = (s: SeatHolder | null, now: number) => !s || (!s.connected && s.leftAt !== null && now - s.leftAt > RECONNECT_GRACE_MS)
+
+// Sits a joining client down: back in their own seat when the token matches,
+// else in the first free seat of a duel, else among the spectators
+export function claimSeat(room: Room, name: string, token: string, spectate: boolean, now: number): { room: Room; seat: Seat } {
+  const sides: Player[] = ["X", "O"]
+  const own = sides.find((p) => room.seats[p]?.token === token)
+  const free = room.kind === "duel" && !spectate ? sides.find((p) => seatFree(room.seats[p], now)) : undefined
+  const side = own ?? free
+  if (!side) return { room: { ...room, spectators: room.spectators + 1 }, seat: "spectator" }
+  const holder: SeatHolder = { name: own ? room.seats[side]!.name : name, token, connected: true, leftAt: null }
+  return { room: { ...room, seats: { ...room.seats, [side]: holder } }, seat: side }
+}
+
+export function leaveSeat(room: Room, seat: Seat, now: number): Room {
+  if (seat === "spectator") return { ...room, spectators: Math.max(0, room.spectators - 1) }
+  const holder = room.seats[seat]
+  return holder ? { ...room, seats: { ...room.seats, [seat]: { ...holder, connected: false, leftAt: now } } } : room
+}
+
+// The room after `seat` plays `intent`; throws with the reason when the rules don't allow it
+export function playIntent(room: Room, seat: Seat, round: number, intent: Intent, rng: Rng): Room {
+  if (seat === "spectator") throw new Error("Spectators can't move")
+  if (room.kind !== "duel") throw new Error("The AIs play this room")
+  if (round !== room.round) throw new Error("That move was for an earlier game")
+  if (room.phase !== "playing" || isTerminal(room.state)) throw new Error("The game is over")
+  if (!room.seats.X || !room.seats.O) throw new Error("Waiting for an opponent")
+  if (room.state.current !== seat) throw new Error("Not your turn")
+  // off the board, a block or a blind guess would otherwise turn into a pass
+  if (intent.type !== "undo" && !(Number.isInteger(intent.cell) && intent.cell >= 0 && intent.cell < room.state.board.length))
+    throw new Error("Move off the board")
+  const action = resolveIntent(room.state, intent, rng)
+  if (!action) throw new Error("Illegal move")
+  const state = step(room.state, action, rng)
+  return { ...room, state, phase: isTerminal(state) ? "over" : "playing" }
+}
+
+// A fresh game in the room; the starter alternates between games
+export function nextRound(room: Room, now: number): Room {
+  const starter: Player = room.round % 2 === 0 ? "X" : "O"
+  const aiMatch = room.kind === "ai-match"
+  return {
+    ...room,
+    round: room.round + 1,
+    phase: aiMatch ? "betting" : "playing",
+    state: createGame({ starter, size: room.state.size, mode: room.state.mode }),
+    dueAt: aiMatch ? now + BET_WINDOW_MS : null,
+  }
+}
+
+// Moves an AI match on once it's due: betting closes, the side to play moves,
+// and a finished game makes way for the next. Other rooms are left as they are.
+export function advanceRoom(room: Room, now: number, rng: Rng): Room {
+  if (room.kind !== "ai-match" || room.dueAt === null || now < room.dueAt) return room
+  if (room.phase === "over") return nextRound(room, now)
+  const side = room.contestants![room.state.current]
+  const action = chooseAction(room.state, getStrategy(side.strategyId), rng, side.skill ?? MAX_SKILL, { timeBudgetMs: AI_MOVE_MS / 3 })
+  const state = step(room.state, action, rng)
+  const over = isTerminal(state)
+  return { ...room, state, phase: over ? "over" : "playing", dueAt: now + (over ? ROUND_BREAK_MS : AI_MOVE_MS) }
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null
+const isName = (v: unknown): v is string => typeof v === "string" && v.trim().length > 0 && v.trim().length <= MAX_NAME_LENGTH
+
+function isContestant(v: unknown): v is Contestant {
+  if (!isObject(v) || !listStrategies().some((s) => s.id === v.strategyId)) return false
+  return v.skill === undefined || (typeof v.skill === "number" && v.skill >= 0 && v.skill <= MAX_SKILL)
+}
+
+// Cells on the largest board; the room's own board is checked when the move is played
+const MAX_CELLS = Math.max(...BOARD_PRESETS.map((p) => cellCount(p.size)))
+
+function isIntent(v: unknown): v is Intent {
+  if (!isObject(v)) return false
+  if (v.type === "undo") return true
+  return (v.type === "place" || v.type === "block") && Number.isInteger(v.cell) && (v.cell as number) >= 0 && (v.cell as number) < MAX_CELLS
+}
+
+// Checks a message from the wire; throws with what's wrong with it
+export function parseClientMessage(raw: string): ClientMessage {
+  let msg: unknown
+  try {
+    msg = JSON.parse(raw)
+  } catch {
+    throw new Error("Not JSON")
+  }
+  if (!isObject(msg)) throw new Error("Not a message")
+  switch (msg.type) {
+    case "create":
+      if (msg.kind !== "duel" && msg.kind !== "ai-match") throw new Error("Unknown room kind")
+      if (!isName(msg.name)) throw new Error("Name must be 1 to 16 characters")
+      if (msg.size !== undefined && !(isObject(msg.size) && BOARD_PRESETS.some((p) => sizeKey(p.size) === sizeKey(msg.size as unknown as BoardSize))))
+        throw new Error("Unknown board size")
+      if (msg.mode !== undefined && !ONLINE_MODES.includes(msg.mode as Mode)) throw new Error("That mode can't be played online")
+      if (msg.contestants !== undefined && !(isObject(msg.contestants) && isContestant(msg.contestants.X) && isContestant(msg.contestants.O)))
+        throw new Error("Unknown contestants")
+      return { ...(msg as Extract<ClientMessage, { type: "create" }>), name: msg.name.trim() }
+    case "join":
+      if (typeof msg.code !== "string") throw new Error("Missing room code")
+      if (!isName(msg.name)) throw new Error("Name must be 1 to 16 characters")
+      if (msg.token !== undefined && typeof msg.token !== "string") throw new Error("Bad token")
+      return { type: "join", code: normalizeCode(msg.code), name: msg.name.trim(), spectate: msg.spectate === true, token: msg.token }
+    case "intent":
+      if (!Number.isInteger(msg.round) || !isIntent(msg.intent)) throw new Error("Bad move")
+      return { type: "intent", round: msg.round as number, intent: msg.intent.type === "undo" ? { type: "undo" } : { type: msg.intent.type, cell: msg.intent.cell } }
+    case "rematch":
+      return { type: "rematch" }
+    default:
+      throw new Error(`Unknown message type "${String(msg.type)}"`)
+  }
+}
@@ -0,0 +1,99 @@
+import { balance, bustCount, openingLedger, type Transaction } from "./bankroll"
+import type { Bet } from "./betslip"
+import { betProfit, type BetRecord } from "./storage"
+
+// Named bettors sharing one screen. Each has a bankroll ledger of its own and
+// places its own bets on the round being watched.
+
+export interface Profile {
+  id: number
+  name: string
+  transactions: Transaction[]
+}
+
+// A bet on the shared slip, and whose ledger it was staked from
+export type PoolBet = Bet & { owner: number }
+
+export const MAX_PROFILES = 6
+export const MAX_NAME_LENGTH = 16
+
+// Match-result keys per seat, in the order X, draw, O
+export const SEAT_KEYS = [
+  ["1", "2", "3"],
+  ["q", "w", "e"],
+  ["a", "s", "d"],
+  ["z", "x", "c"],
+  ["7", "8", "9"],
+  ["u", "i", "o"],
+]
+export const SEAT_SELECTIONS = ["X", "draw", "O"]
+
+// The seat and selection a key press stands for, if any
+export function seatKey(key: string): { seat: number; selection: string } | null {
+  const k = key.toLowerCase()
+  for (let seat = 0; seat < SEAT_KEYS.length; seat++) {
+    const i = SEAT_KEYS[seat].indexOf(k)
+    if (i >= 0) return { seat, selection: SEAT_SELECTIONS[i] }
+  }
+  return null
+}
+
+// Why `name` can't be given to a new or renamed profile, or null if it can
+export function nameProblem(profiles: Profile[], name: string, self?: number): string | null {
+  const trimmed = name.trim()
+  if (!trimmed) return "Name is empty"
+  if (trimmed.length > MAX_NAME_LENGTH) return `Name is longer than ${MAX_NAME_LENGTH} characters`
+  if (profiles.some((p) => p.id !== self && p.name.toLowerCase() === trimmed.toLowerCase())) return `"${trimmed}" is taken`
+  return null
+}
+
+export function addProfile(profiles: Profile[], name: string, bank: number): Profile[] {
+  if (profiles.length >= MAX_PROFILES) throw new Error(`At most ${MAX_PROFILES} players`)
+  const problem = nameProblem(profiles, name)
+  if (problem) throw new Error(problem)
+  const id = profiles.reduce((max, p) => Math.max(max, p.id), 0) + 1
+  return [...profiles, { id, name: name.trim(), transactions: openingLedger(bank) }]
+}
+
+export function renameProfile(profiles: Profile[], id: number, name: string): Profile[] {
+  const problem = nameProblem(profiles, name, id)
+  if (problem) throw new Error(problem)
+  return profiles.map((p) => (p.id === id ? { ...p, name: name.trim() } : p))
+}
+
+export function removeProfile(profiles: Profile[], id: number): Profile[] {
+  if (profiles.length <= 1) throw new Error("The last player can't be removed")
+  return profiles.filter((p) => p.id !== id)
+}
+
+export function updateLedger(profiles: Profile[], id: number, update: (ledger: Transaction[]) => Transaction[]): Profile[] {
+  return profiles.map((p) => (p.id === id ? { ...p, transactions: update(p.transactions) } : p))
+}
+
+export interface Standing {
+  profile: Profile
+  bank: number
+  bets: number
+  won: number
+  staked: number
+  profit: number // winnings less stakes, over every settled bet
+  busts: number
+}
+
+// Ranked on profit across rounds, then on the bankroll left
+export function leaderboard(profiles: Profile[], history: Pick<BetRecord, "player" | "stake" | "payout" | "bonus" | "outcome">[]): Standing[] {
+  return profiles
+    .map((profile) => {
+      const own = history.filter((r) => r.player === profile.id && r.stake > 0)
+      return {
+        profile,
+        bank: balance(profile.transactions),
+        bets: own.length,
+        won: own.filter((r) => r.outcome === "won").length,
+        staked: own.reduce((sum, r) => sum + r.stake, 0),
+        profit: own.reduce((sum, r) => sum + betProfit(r), 0),
+        busts: bustCount(profile.transactions),
+      }
+    })
+    .sort((a, b) => b.profit - a.profit || b.bank - a.bank)
+}
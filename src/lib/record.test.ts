@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest"
+import { createGame, type Action } from "./engine"
+import { parseRecord, recordGame, replayTimeline, toNotation, type RecordedGame } from "./record"
+import { applyPly, present, startTimeline, type Timeline } from "./timeline"
+
+const play = (timeline: Timeline, actions: Action[]) => actions.reduce(applyPly, timeline)
+
+const record = (timeline: Timeline): RecordedGame =>
+  recordGame(timeline, {
+    playedAt: 0,
+    players: { X: { strategyId: null }, O: { strategyId: "hard", skill: 80 } },
+    segment: 0,
+    seed: null,
+    commitment: null,
+    result: null,
+    bet: null,
+    chat: [],
+  })
+
+// Round trips through both forms, as export then import would
+const roundTrips = (rec: RecordedGame) => [parseRecord(JSON.stringify(rec)), parseRecord(toNotation(rec))]
+
+describe("records", () => {
+  it("leaves out the start of a game played from the empty board", () => {
+    const rec = record(play(startTimeline(createGame()), [{ type: "place", cell: 4 }, { type: "place", cell: 0 }]))
+    expect(rec.from).toBeNull()
+    expect(toNotation(rec)).not.toMatch(/from=/)
+    for (const back of roundTrips(rec)) expect(back.from).toBeNull()
+  })
+
+  it("replays a game picked up part-way from where it was picked up", () => {
+    // a placement and a block in block mode, then a switch to undo mode, which starts the move list over
+    const before = play(startTimeline(createGame({ mode: "block" })), [
+      { type: "place", cell: 4 },
+      { type: "block", cell: 0 },
+    ])
+    const after = play(startTimeline({ ...present(before), mode: "undo" }), [
+      { type: "place", cell: 8 },
+      { type: "undo" },
+      { type: "place", cell: 2 },
+    ])
+    const rec = { ...record(after), segment: 1 }
+    expect(rec.from).toEqual({ board: present(before).board, blocked: 0, last: { X: 4, O: null }, moveCount: 1, chaosTriggered: false })
+    // without its start the replay would lose the centre piece
+    expect(present(replayTimeline({ ...rec, from: null })).board[4]).toBeNull()
+    expect(present(replayTimeline(rec))).toEqual(present(after))
+    for (const back of roundTrips(rec)) {
+      expect(back.from).toEqual(rec.from)
+      expect(back.segment).toBe(1)
+      expect(present(replayTimeline(back))).toEqual(present(after))
+    }
+  })
+
+  it.each([
+    ["a board of the wrong size", "from=X...O/2/r1c1/r2c2/-"],
+    ["a cell off the board", "from=X...O..../2/r1c1/r4c2/-"],
+    ["a bad move count", "from=X...O..../two/r1c1/r2c2/-"],
+    ["a bad segment", "from=X...O..../2/r1c1/r2c2/- segment=-1"],
+  ])("rejects a start with %s", (_, field) => {
+    const text = `tictactoe-game/1 X=human O=human size=3x3k3 mode=normal start=X ${field} seed=- hash=- result=- bet=-\nX:r3c3\n`
+    expect(() => parseRecord(text)).toThrow()
+  })
+})
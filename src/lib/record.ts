@@ -0,0 +1,372 @@
+import {
+  BOARD_PRESETS,
+  cellCount,
+  createGame,
+  rowCol,
+  sizeKey,
+  type Action,
+  type BoardSize,
+  type GameState,
+  type Mark,
+  type Mode,
+  type MutationKind,
+  type Player,
+} from "./engine"
+import type { BetOutcome } from "./storage"
+import { listStrategies, MAX_SKILL } from "./strategies"
+import { applyPly, startTimeline, type Timeline } from "./timeline"
+
+// A game written down to save, share and replay. Records come in two forms.
+//
+// JSON, the full record (RecordedGame below):
+//   { "format": "tictactoe-game", "version": 1, "playedAt": <ms since epoch>,
+//     "players": { "X": { "strategyId": "hard", "skill": 80, "name": "Hard (80)" },
+//                  "O": { "strategyId": null, "name": "Human" } },
+//     "size": { "rows": 3, "cols": 3, "k": 3 }, "mode": "normal", "starter": "X",
+//     "from": null, "segment": 0, "seed": "9f1c…", "commitment": "5be0…", "moves": [{ "mark": "X", "action": { "type": "place", "cell": 4 } }, …],
+//     "result": "X", "bet": "correct", "chat": [{ "ply": 3, "from": "O", "text": "…" }] }
+//
+// Text, compact and hand-editable; it leaves out names, the time and the chat:
+//   tictactoe-game/1 X=hard@80 O=human size=3x3k3 mode=normal start=X seed=9f1c… hash=5be0… result=X bet=correct
+//   X:r2c2 O:r1c1 X:#r1c3 O:-r2c2 X:pass ~rotate:XO.X..O..
+//
+// A game picked up part-way (a change of mode mid-game, joining a room in
+// play) starts from the position it was picked up at rather than the empty
+// board. JSON keeps it as "from": { "board", "blocked", "last", "moveCount",
+// "chaosTriggered" }, the text as one more header field,
+//   from=<board>/<moves played>/<X's last cell>/<O's last cell>/<blocked cell>[/chaos]
+// e.g. from=X...O..../2/r1c1/r2c2/-, and "start" is the side to move there.
+// When a change of mode picked it up, "segment" counts the changes so far that
+// round (the text adds segment=<n>), which picks out its random streams.
+//
+// A move is the side to move, a colon, then r<row>c<col> (1-based) to place,
+// #r<row>c<col> to block, -r<row>c<col> to undo the opponent's piece there, or
+// pass. ~<kind>:<board> is a chaos mutation and the board it left, row by row
+// with . for empty. "-" stands for a seed not yet revealed, a game still
+// running, or no bet. Moves are the actions that happened (a drunken click is
+// where the piece landed), so a replay needs no randomness; the round seed and
+// its commitment (see fairness.ts) are there to check the draws against.
+
+export const RECORD_FORMAT = "tictactoe-game"
+export const RECORD_VERSION = 1
+
+export interface RecordedPlayer {
+  strategyId: string | null // null: played by a human
+  skill?: number
+  name?: string
+}
+
+export const playerName = (p: RecordedPlayer) => p.name ?? (p.strategyId === null ? "Human" : p.strategyId)
+
+export interface RecordedMove {
+  mark: Player // the side to move when it happened
+  action: Action
+}
+
+// A line of bot chat, and how many plies had been played when it was said
+export interface ChatLine {
+  ply: number
+  from: Player
+  text: string
+}
+
+// The position a game picked up part-way started from; the rest comes from the record's size, mode and starter
+export type RecordedStart = Pick<GameState, "board" | "blocked" | "last" | "moveCount" | "chaosTriggered">
+
+export interface RecordedGame {
+  format: typeof RECORD_FORMAT
+  version: typeof RECORD_VERSION
+  playedAt: number
+  players: Record<Player, RecordedPlayer>
+  size: BoardSize
+  mode: Mode
+  starter: Player // the side to move at the start
+  from: RecordedStart | null // null: the game started from the empty board
+  segment: number // changes of mode earlier in the round (see fairness.ts)
+  seed: string | null // the round seed, once revealed
+  commitment: string | null // SHA-256 of the seed, published before betting opened
+  moves: RecordedMove[]
+  result: Player | "draw" | null // null: unfinished
+  bet: BetOutcome | null // the pick on the result; null while the game runs
+  chat: ChatLine[]
+}
+
+export function recordGame(
+  timeline: Timeline,
+  details: Pick<RecordedGame, "players" | "segment" | "seed" | "commitment" | "result" | "bet" | "chat" | "playedAt">,
+): RecordedGame {
+  const { start } = timeline
+  const opening = createGame({ size: start.size, mode: start.mode, starter: start.current })
+  const { board, blocked, last, moveCount, chaosTriggered } = start
+  const from = JSON.stringify(start) === JSON.stringify(opening) ? null : { board, blocked, last, moveCount, chaosTriggered }
+  const plies = timeline.plies.slice(0, timeline.at)
+  return {
+    format: RECORD_FORMAT,
+    version: RECORD_VERSION,
+    ...details,
+    size: start.size,
+    mode: start.mode,
+    starter: start.current,
+    from,
+    moves: plies.map((p) => ({ mark: p.mark, action: p.action })),
+    chat: details.chat.filter((line) => line.ply <= plies.length),
+  }
+}
+
+// Plays the moves through from the start; throws at the first one the rules don't allow
+export function replayTimeline(record: RecordedGame): Timeline {
+  const opening = createGame({ size: record.size, mode: record.mode, starter: record.starter })
+  const { from } = record
+  let timeline = startTimeline(from ? { ...opening, ...from, board: from.board.slice(), last: { ...from.last } } : opening)
+  record.moves.forEach((move, i) => {
+    const before = timeline.plies[timeline.at - 1]?.state ?? timeline.start
+    if (move.action.type !== "mutate" && move.mark !== before.current) throw new Error(`Move ${i + 1} is ${move.mark}'s, but ${before.current} is to move`)
+    try {
+      timeline = applyPly(timeline, move.action)
+    } catch {
+      throw new Error(`Move ${i + 1} (${moveToken(move, record.size)}) is not legal there`)
+    }
+  })
+  return timeline
+}
+
+export const cellToken = (size: BoardSize, cell: number) => `r${rowCol(size, cell).row + 1}c${rowCol(size, cell).col + 1}`
+const boardToken = (board: Mark[]) => board.map((m) => m ?? ".").join("")
+
+export function moveToken(move: RecordedMove, size: BoardSize): string {
+  const { mark, action } = move
+  switch (action.type) {
+    case "place":
+      return `${mark}:${cellToken(size, action.cell)}`
+    case "block":
+      return `${mark}:#${cellToken(size, action.cell)}`
+    case "undo":
+      return `${mark}:-`
+    case "pass":
+      return `${mark}:pass`
+    case "mutate":
+      return `~${action.kind}:${boardToken(action.board)}`
+  }
+}
+
+const optionalCell = (size: BoardSize, cell: number | null) => (cell === null ? "-" : cellToken(size, cell))
+
+function startToken(from: RecordedStart, size: BoardSize): string {
+  const parts = [boardToken(from.board), from.moveCount, optionalCell(size, from.last.X), optionalCell(size, from.last.O), optionalCell(size, from.blocked)]
+  return [...parts, ...(from.chaosTriggered ? ["chaos"] : [])].join("/")
+}
+
+const playerToken = (p: RecordedPlayer) => (p.strategyId === null ? "human" : p.skill === undefined ? p.strategyId : `${p.strategyId}@${p.skill}`)
+
+export function toNotation(record: RecordedGame): string {
+  // an undo names the cell it takes back, which only the position knows
+  const timeline = replayTimeline(record)
+  const moves = timeline.plies.map((ply, i) => {
+    const token = moveToken(record.moves[i], record.size)
+    return ply.action.type === "undo" && ply.cell !== null ? token + cellToken(record.size, ply.cell) : token
+  })
+  const header = [
+    `${RECORD_FORMAT}/${RECORD_VERSION}`,
+    `X=${playerToken(record.players.X)}`,
+    `O=${playerToken(record.players.O)}`,
+    `size=${sizeKey(record.size)}`,
+    `mode=${record.mode}`,
+    `start=${record.starter}`,
+    ...(record.from ? [`from=${startToken(record.from, record.size)}`] : []),
+    ...(record.segment ? [`segment=${record.segment}`] : []),
+    `seed=${record.seed ?? "-"}`,
+    `hash=${record.commitment ?? "-"}`,
+    `result=${record.result ?? "-"}`,
+    `bet=${record.bet ?? "-"}`,
+  ]
+  return `${header.join(" ")}\n${moves.join(" ")}\n`
+}
+
+const MODES: Mode[] = ["normal", "blind-skip", "drunken", "chaos", "block", "undo"]
+const MUTATIONS: MutationKind[] = ["fill-swap", "swap", "rotate", "mirror", "flip"]
+const BET_OUTCOMES: BetOutcome[] = ["correct", "wrong", "no-bet"]
+
+const isPlayer = (v: unknown): v is Player => v === "X" || v === "O"
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null
+const isHex = (v: unknown): v is string => typeof v === "string" && /^[0-9a-f]+$/.test(v)
+const isBoard = (v: unknown, size: BoardSize): v is Mark[] => Array.isArray(v) && v.length === cellCount(size) && v.every((m) => m === null || isPlayer(m))
+
+function presetSize(v: unknown): BoardSize {
+  const preset = BOARD_PRESETS.find((p) => isObject(v) && p.size.rows === v.rows && p.size.cols === v.cols && p.size.k === v.k)
+  if (!preset) throw new Error("Unknown board size")
+  return preset.size
+}
+
+function checkPlayer(v: unknown): RecordedPlayer {
+  if (!isObject(v)) throw new Error("Missing player")
+  if (v.strategyId !== null && !listStrategies().some((s) => s.id === v.strategyId)) throw new Error(`Unknown strategy "${String(v.strategyId)}"`)
+  if (v.skill !== undefined && !(typeof v.skill === "number" && v.skill >= 0 && v.skill <= MAX_SKILL)) throw new Error("Skill out of range")
+  if (v.name !== undefined && typeof v.name !== "string") throw new Error("Bad player name")
+  return v as unknown as RecordedPlayer
+}
+
+function checkAction(v: unknown, size: BoardSize): Action {
+  const cell = (c: unknown) => Number.isInteger(c) && (c as number) >= 0 && (c as number) < cellCount(size)
+  if (!isObject(v)) throw new Error("Bad move")
+  switch (v.type) {
+    case "place":
+    case "block":
+      if (!cell(v.cell)) throw new Error("Move off the board")
+      return { type: v.type, cell: v.cell as number }
+    case "undo":
+    case "pass":
+      return { type: v.type }
+    case "mutate":
+      if (!MUTATIONS.includes(v.kind as MutationKind) || !isBoard(v.board, size)) throw new Error("Bad chaos mutation")
+      return { type: "mutate", kind: v.kind as MutationKind, board: v.board as Mark[] }
+    default:
+      throw new Error(`Unknown move type "${String(v.type)}"`)
+  }
+}
+
+function checkStart(v: unknown, size: BoardSize): RecordedStart | null {
+  if (v === undefined || v === null) return null
+  const cell = (c: unknown) => c === null || (Number.isInteger(c) && (c as number) >= 0 && (c as number) < cellCount(size))
+  if (!isObject(v) || !isBoard(v.board, size)) throw new Error("Bad start position")
+  if (!cell(v.blocked) || !isObject(v.last) || !cell(v.last.X) || !cell(v.last.O)) throw new Error("Bad start position")
+  if (!Number.isInteger(v.moveCount) || (v.moveCount as number) < 0 || typeof v.chaosTriggered !== "boolean") throw new Error("Bad start position")
+  return {
+    board: v.board,
+    blocked: v.blocked as number | null,
+    last: { X: v.last.X as number | null, O: v.last.O as number | null },
+    moveCount: v.moveCount as number,
+    chaosTriggered: v.chaosTriggered,
+  }
+}
+
+function checkSegment(v: unknown): number {
+  if (!Number.isSafeInteger(v) || (v as number) < 0) throw new Error("Bad segment")
+  return v as number
+}
+
+function fromJson(data: unknown): RecordedGame {
+  if (!isObject(data) || data.format !== RECORD_FORMAT) throw new Error("Not a game record")
+  if (data.version !== RECORD_VERSION) throw new Error(`Game record version ${String(data.version)} isn't supported`)
+  const size = presetSize(data.size)
+  if (!MODES.includes(data.mode as Mode)) throw new Error("Unknown mode")
+  if (!isPlayer(data.starter)) throw new Error("Unknown starter")
+  if (!isObject(data.players)) throw new Error("Missing players")
+  if (!Array.isArray(data.moves)) throw new Error("Missing moves")
+  const moves = data.moves.map((m: unknown): RecordedMove => {
+    if (!isObject(m) || !isPlayer(m.mark)) throw new Error("Bad move")
+    return { mark: m.mark, action: checkAction(m.action, size) }
+  })
+  const chat = Array.isArray(data.chat)
+    ? data.chat.filter((c: unknown): c is ChatLine => isObject(c) && Number.isInteger(c.ply) && isPlayer(c.from) && typeof c.text === "string")
+    : []
+  return {
+    format: RECORD_FORMAT,
+    version: RECORD_VERSION,
+    playedAt: typeof data.playedAt === "number" ? data.playedAt : 0,
+    players: { X: checkPlayer(data.players.X), O: checkPlayer(data.players.O) },
+    size,
+    mode: data.mode as Mode,
+    starter: data.starter,
+    from: checkStart(data.from, size),
+    segment: checkSegment(data.segment ?? 0),
+    seed: isHex(data.seed) ? data.seed : null,
+    commitment: isHex(data.commitment) ? data.commitment : null,
+    moves,
+    result: isPlayer(data.result) || data.result === "draw" ? data.result : null,
+    bet: BET_OUTCOMES.includes(data.bet as BetOutcome) ? (data.bet as BetOutcome) : null,
+    chat,
+  }
+}
+
+function parseCell(token: string, size: BoardSize): number {
+  const m = /^r(\d+)c(\d+)$/.exec(token)
+  const row = m ? Number(m[1]) - 1 : -1
+  const col = m ? Number(m[2]) - 1 : -1
+  if (row < 0 || row >= size.rows || col < 0 || col >= size.cols) throw new Error(`"${token}" is not a cell on this board`)
+  return row * size.cols + col
+}
+
+function parseStart(token: string, size: BoardSize): RecordedStart {
+  const [board = "", moveCount = "", lastX = "", lastO = "", blocked = "", chaos, ...extra] = token.split("/")
+  if (board.length !== cellCount(size) || !/^[XO.]+$/.test(board) || !/^\d+$/.test(moveCount) || (chaos !== undefined && chaos !== "chaos") || extra.length)
+    throw new Error(`Bad start position "${token}"`)
+  const cell = (t: string) => (t === "-" ? null : parseCell(t, size))
+  return {
+    board: [...board].map((c) => (c === "." ? null : (c as Player))),
+    blocked: cell(blocked),
+    last: { X: cell(lastX), O: cell(lastO) },
+    moveCount: Number(moveCount),
+    chaosTriggered: chaos === "chaos",
+  }
+}
+
+function parseMove(token: string, size: BoardSize, starter: Player, moves: RecordedMove[]): RecordedMove {
+  if (token.startsWith("~")) {
+    const [kind, board = ""] = token.slice(1).split(":")
+    if (!MUTATIONS.includes(kind as MutationKind) || board.length !== cellCount(size) || !/^[XO.]+$/.test(board)) throw new Error(`Bad chaos mutation "${token}"`)
+    // credited to the side to move, as the app does
+    const mark = [...moves].reverse().find((m) => m.action.type !== "mutate")?.mark
+    const toMove: Player = mark === undefined ? starter : mark === "X" ? "O" : "X"
+    return { mark: toMove, action: { type: "mutate", kind: kind as MutationKind, board: [...board].map((c) => (c === "." ? null : (c as Player))) } }
+  }
+  const [mark, what = ""] = token.split(":")
+  if (!isPlayer(mark)) throw new Error(`Bad move "${token}"`)
+  if (what === "pass") return { mark, action: { type: "pass" } }
+  // the cell after an undo is only a note of what it took back
+  if (what.startsWith("-")) return { mark, action: { type: "undo" } }
+  if (what.startsWith("#")) return { mark, action: { type: "block", cell: parseCell(what.slice(1), size) } }
+  return { mark, action: { type: "place", cell: parseCell(what, size) } }
+}
+
+function fromNotation(text: string): RecordedGame {
+  const [head = "", ...rest] = text.trim().split("\n")
+  const [tag, ...fields] = head.trim().split(/\s+/)
+  if (tag !== `${RECORD_FORMAT}/${RECORD_VERSION}`) throw new Error("Not a game record")
+  const field = Object.fromEntries(fields.map((f) => f.split("=") as [string, string]))
+  const player = (token = ""): RecordedPlayer => {
+    if (token === "human") return { strategyId: null }
+    const [strategyId, skill] = token.split("@")
+    return checkPlayer({ strategyId, skill: skill === undefined ? undefined : Number(skill) })
+  }
+  const sizeMatch = /^(\d+)x(\d+)k(\d+)$/.exec(field.size ?? "")
+  const size = presetSize(sizeMatch && { rows: Number(sizeMatch[1]), cols: Number(sizeMatch[2]), k: Number(sizeMatch[3]) })
+  if (!MODES.includes(field.mode as Mode)) throw new Error("Unknown mode")
+  if (!isPlayer(field.start)) throw new Error("Unknown starter")
+  const moves: RecordedMove[] = []
+  for (const token of rest.join(" ").split(/\s+/).filter(Boolean)) moves.push(parseMove(token, size, field.start, moves))
+  return {
+    format: RECORD_FORMAT,
+    version: RECORD_VERSION,
+    playedAt: 0,
+    players: { X: player(field.X), O: player(field.O) },
+    size,
+    mode: field.mode as Mode,
+    starter: field.start,
+    from: field.from === undefined ? null : parseStart(field.from, size),
+    segment: checkSegment(field.segment === undefined ? 0 : /^\d+$/.test(field.segment) ? Number(field.segment) : NaN),
+    seed: isHex(field.seed) ? field.seed : null,
+    commitment: isHex(field.hash) ? field.hash : null,
+    moves,
+    result: isPlayer(field.result) || field.result === "draw" ? field.result : null,
+    bet: BET_OUTCOMES.includes(field.bet as BetOutcome) ? (field.bet as BetOutcome) : null,
+    chat: [],
+  }
+}
+
+// Reads either form; throws with what's wrong, including a move the rules don't allow
+export function parseRecord(text: string): RecordedGame {
+  let record: RecordedGame
+  if (text.trim().startsWith("{")) {
+    let data: unknown
+    try {
+      data = JSON.parse(text)
+    } catch {
+      throw new Error("Not valid JSON")
+    }
+    record = fromJson(data)
+  } else {
+    record = fromNotation(text)
+  }
+  replayTimeline(record)
+  return record
+}
@@ -0,0 +1,122 @@
+import { calculateWinner, opponent, threatCells, type GameState, type Player } from "./engine"
+import type { Analysis, CellVerdict, Verdict } from "./analysis"
+import { positionAt, type Ply, type Timeline } from "./timeline"
+
+// Post-game review: every placement scored against perfect play from the
+// position it was made in, with the tactics it showed or missed. Blocks,
+// undos, passes and chaos plies are listed but not rated.
+
+// Thinking time per position; a review searches every ply of the game
+export const REVIEW_BUDGET_MS = 400
+
+export type MoveClass = "best" | "inaccuracy" | "blunder" | "missed-win"
+
+export type Motif = "completes-line" | "fork" | "block" | "missed-line" | "missed-block"
+
+export const MOTIF_LABELS: Record<Motif, string> = {
+  "completes-line": "completes a line",
+  fork: "fork",
+  block: "blocks a threat",
+  "missed-line": "missed a win in one",
+  "missed-block": "missed a block",
+}
+
+export interface ReviewedPly {
+  mark: Player
+  cell: number | null
+  // null when the ply isn't a placement, or (big boards) the search didn't weigh the cell played
+  rating: MoveClass | null
+  played: CellVerdict | null
+  best: CellVerdict[] // every move as good as the best one
+  motifs: Motif[]
+}
+
+export interface SideSummary {
+  rated: number
+  counts: Record<MoveClass, number>
+  accuracy: number | null // percent; null with no rated moves
+}
+
+export interface GameReview {
+  plies: ReviewedPly[]
+  sides: Record<Player, SideSummary>
+}
+
+// Heuristic shortfall that counts as an inaccuracy where the result is still unclear
+const INACCURACY_MARGIN = 16
+
+const RANK: Record<Verdict, number> = { win: 2, draw: 1, unclear: 1, loss: 0 }
+
+// What each class is worth towards accuracy
+const CREDIT: Record<MoveClass, number> = { best: 1, inaccuracy: 0.5, blunder: 0, "missed-win": 0 }
+
+export function classify(played: CellVerdict, best: CellVerdict): MoveClass {
+  if (best.verdict === "win" && played.verdict !== "win") return "missed-win"
+  if (RANK[played.verdict] < RANK[best.verdict]) return "blunder"
+  if (played.score === best.score) return "best"
+  // a slower win, a quicker loss, or a weaker unsettled move
+  if (played.verdict === "unclear" || best.verdict === "unclear") return best.score - played.score > INACCURACY_MARGIN ? "inaccuracy" : "best"
+  return played.verdict === "draw" ? "best" : "inaccuracy"
+}
+
+export function motifs(before: GameState, cell: number, after: GameState): Motif[] {
+  const me = before.current
+  const { size } = before
+  const found: Motif[] = []
+  const mine = threatCells(before.board, me, size)
+  const theirs = threatCells(before.board, opponent(me), size)
+  const won = calculateWinner(after.board, size).winner === me
+  if (won) found.push("completes-line")
+  else if (mine.length) found.push("missed-line")
+  if (theirs.includes(cell)) found.push("block")
+  else if (theirs.length && !won) found.push("missed-block")
+  if (!won && threatCells(after.board, me, size).length >= 2 && mine.length < 2) found.push("fork")
+  return found
+}
+
+export function reviewPly(before: GameState, ply: Ply, analysis: Analysis | null): ReviewedPly {
+  const { mark, cell, action } = ply
+  if (action.type !== "place" || !analysis?.cells.length) return { mark, cell, rating: null, played: null, best: [], motifs: [] }
+  const top = analysis.cells[0]
+  const played = analysis.cells.find((c) => c.cell === action.cell) ?? null
+  return {
+    mark,
+    cell,
+    rating: played && classify(played, top),
+    played,
+    best: analysis.cells.filter((c) => c.score === top.score),
+    motifs: motifs(before, action.cell, ply.state),
+  }
+}
+
+export function summarize(plies: ReviewedPly[]): Record<Player, SideSummary> {
+  const side = (p: Player): SideSummary => {
+    const rated = plies.filter((r) => r.mark === p && r.rating !== null)
+    const counts: Record<MoveClass, number> = { best: 0, inaccuracy: 0, blunder: 0, "missed-win": 0 }
+    let credit = 0
+    for (const r of rated) {
+      counts[r.rating!]++
+      credit += CREDIT[r.rating!]
+    }
+    return { rated: rated.length, counts, accuracy: rated.length ? Math.round((100 * credit) / rated.length) : null }
+  }
+  return { X: side("X"), O: side("O") }
+}
+
+// Reviews the game up to its cursor, one position at a time through `analyse`
+// (a worker, in the app); `onProgress` hears how many plies are done.
+export async function reviewGame(
+  timeline: Timeline,
+  analyse: (state: GameState) => Promise<Analysis>,
+  onProgress?: (done: number, total: number) => void,
+): Promise<GameReview> {
+  const plies: ReviewedPly[] = []
+  for (let i = 0; i < timeline.at; i++) {
+    const before = positionAt(timeline, i)
+    const ply = timeline.plies[i]
+    const analysis = ply.action.type === "place" ? await analyse(before) : null
+    plies.push(reviewPly(before, ply, analysis))
+    onProgress?.(i + 1, timeline.at)
+  }
+  return { plies, sides: summarize(plies) }
+}
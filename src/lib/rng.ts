@@ -0,0 +1,30 @@
+// Random source shared by the engine and the AIs. Anything that needs
+// randomness takes an Rng so games can be replayed from a seed.
+export type Rng = () => number
+
+// mulberry32: tiny, fast and good enough for game decisions
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function randomInt(rng: Rng, n: number) {
+  return Math.floor(rng() * n)
+}
+
+export function choose<T>(rng: Rng, arr: readonly T[]): T {
+  return arr[randomInt(rng, arr.length)]
+}
+
+// FNV-1a, for deriving a stable seed from a descriptive key
+export function seedFrom(text: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193)
+  return h >>> 0
+}
@@ -0,0 +1,372 @@
+import {
+  cellCount,
+  centerCells,
+  legalMoves,
+  linesThrough,
+  mirrorMap,
+  opponent,
+  rotateMap,
+  rowCol,
+  sizeKey,
+  winLines,
+  type BoardSize,
+  type GameState,
+  type Mark,
+  type Player,
+} from "./engine"
+import { createRng } from "./rng"
+
+// Alpha-beta (negamax) search with a symmetry-reduced transposition table and
+// iterative deepening. Scores are from the point of view of the side to move:
+// a forced win in d plies scores WIN_SCORE - d, a forced loss -(WIN_SCORE - d),
+// and positions cut off by depth or time get a heuristic value below EVAL_CAP.
+
+export const WIN_SCORE = 1_000_000
+export const MATE_THRESHOLD = WIN_SCORE - 10_000
+const EVAL_CAP = WIN_SCORE / 10
+
+// Static value of a position for `player`, who is to move
+export type Evaluate = (board: Mark[], size: BoardSize, player: Player) => number
+
+// Counts lines still open to one side, weighting fuller lines exponentially
+export const lineEvaluation: Evaluate = (board, size, player) => {
+  let score = 0
+  for (const line of winLines(size)) {
+    let mine = 0
+    let theirs = 0
+    for (const i of line) {
+      const m = board[i]
+      if (m === player) mine++
+      else if (m) theirs++
+    }
+    // having the move makes our own open lines worth a little more
+    if (mine && !theirs) score += 1.5 * 4 ** mine
+    else if (theirs && !mine) score -= 4 ** theirs
+  }
+  return Math.max(-EVAL_CAP, Math.min(EVAL_CAP, Math.round(score)))
+}
+
+export const isWinScore = (score: number) => Math.abs(score) > MATE_THRESHOLD
+
+// Plies until the forced result, or null for a non-decisive score
+export const pliesToResult = (score: number) => (isWinScore(score) ? WIN_SCORE - Math.abs(score) : null)
+
+export interface SearchOptions {
+  maxDepth?: number
+  timeBudgetMs?: number
+  evaluate?: Evaluate
+  // Score every root move exactly instead of only proving the best ones
+  exact?: boolean
+}
+
+export interface MoveScore {
+  cell: number
+  score: number
+}
+
+export interface SearchResult {
+  moves: MoveScore[] // root moves, best first; non-best scores are upper bounds unless `exact`
+  best: number[] // all moves sharing the top score
+  depth: number // deepest fully completed iteration
+  complete: boolean // every line was searched to the end of the game
+  nodes: number
+}
+
+// --- symmetry + hashing -----------------------------------------------------
+
+// Board permutations (t[i] = b[perm[i]]) generated by the chaos rotate/mirror maps
+const symmetryCache = new Map<string, number[][]>()
+
+export function symmetries(size: BoardSize): number[][] {
+  const key = sizeKey(size)
+  const cached = symmetryCache.get(key)
+  if (cached) return cached
+  const identity = Array.from({ length: cellCount(size) }, (_, i) => i)
+  const gens = [rotateMap(size), mirrorMap(size)]
+  const seen = new Map([[identity.join(), identity]])
+  const queue = [identity]
+  while (queue.length) {
+    const p = queue.pop()!
+    for (const g of gens) {
+      const q = g.map((i) => p[i])
+      const k = q.join()
+      if (!seen.has(k)) {
+        seen.set(k, q)
+        queue.push(q)
+      }
+    }
+  }
+  const perms = [...seen.values()]
+  symmetryCache.set(key, perms)
+  return perms
+}
+
+interface Zobrist {
+  hi: Int32Array[] // [player][cell]
+  lo: Int32Array[]
+}
+
+const zobristCache = new Map<number, Zobrist>()
+
+function zobrist(cells: number): Zobrist {
+  const cached = zobristCache.get(cells)
+  if (cached) return cached
+  const rng = createRng(0x5eed + cells)
+  const table = () => [0, 1].map(() => Int32Array.from({ length: cells }, () => (rng() * 2 ** 32) | 0))
+  const z = { hi: table(), lo: table() }
+  zobristCache.set(cells, z)
+  return z
+}
+
+// --- transposition table ----------------------------------------------------
+
+const EXACT = 0
+const LOWER = 1
+const UPPER = 2
+
+interface Entry {
+  depth: number
+  score: number
+  flag: typeof EXACT | typeof LOWER | typeof UPPER
+  move: number // best reply, in the canonical orientation (-1 if none)
+}
+
+export type TranspositionTable = Map<number, Entry>
+
+const MAX_TABLE_ENTRIES = 500_000
+const tables = new WeakMap<Evaluate, Map<string, TranspositionTable>>()
+
+// Tables outlive a single search so later moves reuse earlier work. A
+// depth-capped search gets its own table so it cannot read deeper results.
+function tableFor(size: BoardSize, evaluate: Evaluate, maxDepth?: number): TranspositionTable {
+  let bySize = tables.get(evaluate)
+  if (!bySize) tables.set(evaluate, (bySize = new Map()))
+  const key = `${sizeKey(size)}/${maxDepth ?? "full"}`
+  let table = bySize.get(key)
+  if (!table) bySize.set(key, (table = new Map()))
+  if (table.size > MAX_TABLE_ENTRIES) table.clear()
+  return table
+}
+
+// --- search -----------------------------------------------------------------
+
+class SearchAborted extends Error {}
+
+interface Context {
+  size: BoardSize
+  board: Mark[]
+  empties: number
+  through: number[][][]
+  order: number[] // all cells, centre first
+  sparse: boolean // large board: only consider cells near existing pieces
+  evaluate: Evaluate
+  table: TranspositionTable
+  perms: number[][]
+  inverse: number[][]
+  zob: Zobrist
+  hi: Int32Array // running hash per symmetry
+  lo: Int32Array
+  nodes: number
+  deadline: number
+  canAbort: boolean
+}
+
+const pieceIndex = (p: Player) => (p === "X" ? 0 : 1)
+
+function toggle(ctx: Context, cell: number, p: Player) {
+  const k = pieceIndex(p)
+  for (let s = 0; s < ctx.perms.length; s++) {
+    const at = ctx.inverse[s][cell]
+    ctx.hi[s] ^= ctx.zob.hi[k][at]
+    ctx.lo[s] ^= ctx.zob.lo[k][at]
+  }
+}
+
+// Smallest hash over all symmetries, plus which symmetry produced it
+function canonical(ctx: Context, toMove: Player): { key: number; sym: number } {
+  let key = Infinity
+  let sym = 0
+  for (let s = 0; s < ctx.perms.length; s++) {
+    const h = ((ctx.hi[s] >>> 0) % 2 ** 20) * 2 ** 32 + (ctx.lo[s] >>> 0)
+    if (h < key) {
+      key = h
+      sym = s
+    }
+  }
+  return { key: key * 2 + pieceIndex(toMove), sym }
+}
+
+function completesLine(ctx: Context, cell: number, p: Player) {
+  for (const line of ctx.through[cell]) {
+    if (line.every((i) => ctx.board[i] === p)) return true
+  }
+  return false
+}
+
+function candidates(ctx: Context): number[] {
+  const { board, size } = ctx
+  if (!ctx.sparse) return ctx.order.filter((i) => !board[i])
+  const near = new Set<number>()
+  for (let i = 0; i < board.length; i++) {
+    if (!board[i]) continue
+    const { row, col } = rowCol(size, i)
+    for (let dr = -2; dr <= 2; dr++) {
+      for (let dc = -2; dc <= 2; dc++) {
+        const r = row + dr
+        const c = col + dc
+        if (r < 0 || r >= size.rows || c < 0 || c >= size.cols) continue
+        const j = r * size.cols + c
+        if (!board[j]) near.add(j)
+      }
+    }
+  }
+  if (!near.size) return centerCells(size).filter((i) => !board[i])
+  return ctx.order.filter((i) => near.has(i))
+}
+
+// Mate scores shrink by one ply each step towards the root
+const fromChild = (v: number) => (v > MATE_THRESHOLD ? v - 1 : v < -MATE_THRESHOLD ? v + 1 : v)
+const toChild = (v: number) => (v > MATE_THRESHOLD ? v + 1 : v < -MATE_THRESHOLD ? v - 1 : v)
+
+// Value of placing `cell` for `player`, from `player`'s point of view
+function scoreMove(ctx: Context, cell: number, player: Player, depth: number, alpha: number, beta: number) {
+  ctx.board[cell] = player
+  ctx.empties--
+  toggle(ctx, cell, player)
+  try {
+    if (completesLine(ctx, cell, player)) return WIN_SCORE - 1
+    return fromChild(-negamax(ctx, opponent(player), depth - 1, -toChild(beta), -toChild(alpha)))
+  } finally {
+    toggle(ctx, cell, player)
+    ctx.empties++
+    ctx.board[cell] = null
+  }
+}
+
+function negamax(ctx: Context, player: Player, depth: number, alpha: number, beta: number): number {
+  if (++ctx.nodes % 1024 === 0 && ctx.canAbort && performance.now() > ctx.deadline) throw new SearchAborted()
+  if (ctx.empties === 0) return 0
+  if (depth <= 0) return ctx.evaluate(ctx.board, ctx.size, player)
+
+  const alphaIn = alpha
+  const { key, sym } = canonical(ctx, player)
+  const hit = ctx.table.get(key)
+  let first = -1
+  if (hit) {
+    if (hit.depth >= depth) {
+      if (hit.flag === EXACT) return hit.score
+      if (hit.flag === LOWER) alpha = Math.max(alpha, hit.score)
+      else beta = Math.min(beta, hit.score)
+      if (alpha >= beta) return hit.score
+    }
+    if (hit.move >= 0) first = ctx.perms[sym][hit.move]
+  }
+
+  const moves = candidates(ctx)
+  const at = moves.indexOf(first)
+  if (at > 0) {
+    moves.splice(at, 1)
+    moves.unshift(first)
+  }
+
+  let best = -Infinity
+  let bestMove = -1
+  for (const cell of moves) {
+    const v = scoreMove(ctx, cell, player, depth, alpha, beta)
+    if (v > best) {
+      best = v
+      bestMove = cell
+    }
+    if (v > alpha) alpha = v
+    if (alpha >= beta) break
+  }
+
+  const flag = best <= alphaIn ? UPPER : best >= beta ? LOWER : EXACT
+  ctx.table.set(key, { depth, score: best, flag, move: bestMove < 0 ? -1 : ctx.inverse[sym][bestMove] })
+  return best
+}
+
+function createContext(state: GameState, evaluate: Evaluate, deadline: number, maxDepth?: number): Context {
+  const { size, board } = state
+  const perms = symmetries(size)
+  const inverse = perms.map((p) => {
+    const inv = Array(p.length)
+    p.forEach((from, to) => (inv[from] = to))
+    return inv
+  })
+  const mid = rowCol(size, centerCells(size)[0])
+  const dist = (i: number) => {
+    const { row, col } = rowCol(size, i)
+    return Math.max(Math.abs(row - mid.row), Math.abs(col - mid.col))
+  }
+  const order = Array.from({ length: board.length }, (_, i) => i).sort((a, b) => dist(a) - dist(b))
+  const ctx: Context = {
+    size,
+    board: board.slice(),
+    empties: board.filter((m) => !m).length,
+    through: linesThrough(size),
+    order,
+    sparse: board.length > 25,
+    evaluate,
+    table: tableFor(size, evaluate, maxDepth),
+    perms,
+    inverse,
+    zob: zobrist(board.length),
+    hi: new Int32Array(perms.length),
+    lo: new Int32Array(perms.length),
+    nodes: 0,
+    deadline,
+    canAbort: false,
+  }
+  board.forEach((m, i) => m && toggle(ctx, i, m))
+  return ctx
+}
+
+export function search(state: GameState, options: SearchOptions = {}): SearchResult {
+  const evaluate = options.evaluate ?? lineEvaluation
+  const ctx = createContext(state, evaluate, performance.now() + (options.timeBudgetMs ?? Infinity), options.maxDepth)
+  const player = state.current
+  const legal = new Set(legalMoves(state))
+  let rootMoves = candidates(ctx).filter((i) => legal.has(i))
+  // a block can leave the only legal cells outside the sparse neighbourhood
+  if (!rootMoves.length) rootMoves = [...legal]
+  const maxDepth = Math.min(options.maxDepth ?? Infinity, ctx.empties)
+
+  let result: SearchResult = { moves: [], best: [], depth: 0, complete: false, nodes: 0 }
+  if (!rootMoves.length) return result
+  let ordered = rootMoves
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    const scored: MoveScore[] = []
+    try {
+      let top = -Infinity
+      for (const cell of ordered) {
+        // window just below the best so far: ties are still scored exactly
+        const alpha = options.exact ? -Infinity : top - 1
+        const score = scoreMove(ctx, cell, player, depth, alpha, Infinity)
+        scored.push({ cell, score })
+        top = Math.max(top, score)
+      }
+    } catch (e) {
+      if (e instanceof SearchAborted) break
+      throw e
+    }
+    scored.sort((a, b) => b.score - a.score)
+    const top = scored[0].score
+    result = {
+      moves: scored,
+      best: scored.filter((m) => m.score === top).map((m) => m.cell),
+      depth,
+      complete: depth >= ctx.empties && !ctx.sparse,
+      nodes: ctx.nodes,
+    }
+    ordered = scored.map((m) => m.cell)
+    ctx.canAbort = true
+    // once the result is forced, deeper iterations cannot change the choice
+    if (options.exact ? scored.every((m) => isWinScore(m.score)) : isWinScore(top)) {
+      result.complete = true
+      break
+    }
+  }
+  result.nodes = ctx.nodes
+  return result
+}
@@ -0,0 +1,210 @@
+import {
+  DEFAULT_SIZE,
+  chaosMutation,
+  createGame,
+  isTerminal,
+  outcome,
+  resolveIntent,
+  step,
+  type Action,
+  type BoardSize,
+  type GameState,
+  type Mode,
+  type Player,
+} from "./engine"
+import { createRng, type Rng } from "./rng"
+import { MAX_SKILL, chooseAction, getStrategy, pickMove } from "./strategies"
+
+// Headless games between two strategies, using the same move selection
+// (chooseAction) and rule handling (step) as the board in the app.
+
+export interface Contestant {
+  strategyId: string
+  skill?: number
+}
+
+export interface GameConfig {
+  x: Contestant
+  o: Contestant
+  starter: Player
+  size?: BoardSize
+  mode?: Mode
+  // Side that plays under the human rules of the mode (drunken, blind…), as X does in the app
+  modeSide?: Player | null
+  // Chaos mode mutates the board on a timer in the app; here every N plies
+  chaosEvery?: number
+  // Give up after this many plies (undo wars can loop); the record calls it a draw and flags it capped
+  maxPlies?: number
+  // Thinking time per search, to approximate slow agents quickly
+  moveTimeMs?: number
+  // Play on from this position instead of an empty board
+  from?: GameState
+}
+
+export interface GameRecord {
+  starter: Player
+  outcome: Player | "draw"
+  plies: number // every action, including blocks, undos and passes
+  moves: number // placements only
+  capped: boolean
+}
+
+export function playGame(config: GameConfig, rng: Rng, onStep?: (before: GameState, after: GameState) => void): GameRecord {
+  const { x, o, starter, modeSide = "X", chaosEvery = 3, maxPlies = 500, moveTimeMs } = config
+  const limits = moveTimeMs === undefined ? {} : { timeBudgetMs: moveTimeMs }
+  let state: GameState = config.from ?? createGame({ starter, size: config.size ?? DEFAULT_SIZE, mode: config.mode ?? "normal" })
+  let plies = 0
+  const advance = (action: Action) => {
+    const next = step(state, action, rng)
+    onStep?.(state, next)
+    state = next
+  }
+  while (!isTerminal(state) && plies < maxPlies) {
+    const side = state.current === "X" ? x : o
+    const strategy = getStrategy(side.strategyId)
+    const skill = side.skill ?? MAX_SKILL
+    if (state.mode !== "normal" && state.current === modeSide) {
+      const move = pickMove(state, strategy, rng, skill, limits)
+      const action = move === null ? { type: "pass" as const } : resolveIntent(state, { type: "place", cell: move }, rng)
+      advance(action ?? { type: "pass" })
+    } else {
+      advance(chooseAction(state, strategy, rng, skill, limits))
+    }
+    plies++
+    if (state.mode === "chaos" && plies % chaosEvery === 0 && !isTerminal(state)) {
+      advance(chaosMutation(state, rng))
+    }
+  }
+  return { starter, outcome: outcome(state) ?? "draw", plies, moves: state.moveCount, capped: !isTerminal(state) }
+}
+
+export type StarterPolicy = Player | "alternate" | "random"
+
+export interface BatchConfig {
+  a: Contestant
+  b: Contestant
+  games: number
+  seed: number
+  size?: BoardSize
+  mode?: Mode
+  starter?: StarterPolicy
+  // Alternate which contestant plays X
+  swap?: boolean
+  modeSide?: Player | null
+}
+
+export interface BatchGame extends GameRecord {
+  game: number
+  aPlays: Player
+  winner: "a" | "b" | "draw" | "unfinished" // unfinished: capped, and left out of every rate
+}
+
+export interface Tally {
+  games: number
+  wins: number
+  draws: number
+  losses: number
+}
+
+export interface BatchSummary {
+  games: number
+  finished: number // games that ended before the ply cap; the tallies, counts and rates cover only these
+  a: Tally // from contestant A's point of view
+  asX: Tally // A's results when playing X
+  asO: Tally
+  xWins: number
+  oWins: number
+  draws: number
+  avgPlies: number
+  avgMoves: number
+  starterWinRate: number
+  secondWinRate: number
+  firstMoveAdvantage: number // starter win rate minus second player's win rate
+  capped: number
+}
+
+export interface BatchResult {
+  config: BatchConfig
+  games: BatchGame[]
+  summary: BatchSummary
+}
+
+const emptyTally = (): Tally => ({ games: 0, wins: 0, draws: 0, losses: 0 })
+
+function record(t: Tally, result: "win" | "draw" | "loss") {
+  t.games++
+  if (result === "win") t.wins++
+  else if (result === "draw") t.draws++
+  else t.losses++
+}
+
+function starterFor(policy: StarterPolicy, game: number, rng: Rng): Player {
+  if (policy === "alternate") return game % 2 ? "O" : "X"
+  if (policy === "random") return rng() < 0.5 ? "X" : "O"
+  return policy
+}
+
+export function summarize(games: BatchGame[]): BatchSummary {
+  const a = emptyTally()
+  const asX = emptyTally()
+  const asO = emptyTally()
+  let xWins = 0
+  let oWins = 0
+  let starterWins = 0
+  let secondWins = 0
+  let plies = 0
+  let moves = 0
+  const finished = games.filter((g) => !g.capped)
+  for (const g of finished) {
+    const result = g.winner === "a" ? "win" : g.winner === "b" ? "loss" : "draw"
+    record(a, result)
+    record(g.aPlays === "X" ? asX : asO, result)
+    if (g.outcome === "X") xWins++
+    if (g.outcome === "O") oWins++
+    if (g.outcome === g.starter) starterWins++
+    else if (g.outcome !== "draw") secondWins++
+    plies += g.plies
+    moves += g.moves
+  }
+  const n = Math.max(1, finished.length)
+  return {
+    games: games.length,
+    finished: finished.length,
+    a,
+    asX,
+    asO,
+    xWins,
+    oWins,
+    draws: a.draws,
+    avgPlies: plies / n,
+    avgMoves: moves / n,
+    starterWinRate: starterWins / n,
+    secondWinRate: secondWins / n,
+    firstMoveAdvantage: (starterWins - secondWins) / n,
+    capped: games.length - finished.length,
+  }
+}
+
+export function runBatch(config: BatchConfig, onGame?: (game: BatchGame) => void): BatchResult {
+  const rng = createRng(config.seed)
+  const games: BatchGame[] = []
+  for (let i = 0; i < config.games; i++) {
+    const aPlays: Player = config.swap && i % 2 ? "O" : "X"
+    const [x, o] = aPlays === "X" ? [config.a, config.b] : [config.b, config.a]
+    const starter = starterFor(config.starter ?? "alternate", config.swap ? Math.floor(i / 2) : i, rng)
+    const rec = playGame({ x, o, starter, size: config.size, mode: config.mode, modeSide: config.modeSide }, rng)
+    const winner = rec.capped ? "unfinished" : rec.outcome === "draw" ? "draw" : rec.outcome === aPlays ? "a" : "b"
+    const game: BatchGame = { ...rec, game: i + 1, aPlays, winner }
+    games.push(game)
+    onGame?.(game)
+  }
+  return { config, games, summary: summarize(games) }
+}
+
+export function toCsv(result: BatchResult): string {
+  const header = ["game", "a_plays", "starter", "outcome", "winner", "plies", "moves", "capped"]
+  const rows = result.games.map((g) =>
+    [g.game, g.aPlays, g.starter, g.capped ? "unfinished" : g.outcome, g.winner, g.plies, g.moves, g.capped].join(","),
+  )
+  return [header.join(","), ...rows].join("\n") + "\n"
+}
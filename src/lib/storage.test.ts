@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { audit, openingLedger, placeBets, type Transaction } from "./bankroll"
+import { defaultState, migrate, SCHEMA_VERSION } from "./storage"
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("migrate", () => {
+  it("starts over only the profile whose ledger fails its audit", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    const kept = placeBets(openingLedger(2500), [{ id: 1, stake: 100, market: "result" }])
+    const broken: Transaction[] = [...openingLedger(2500), { id: 2, kind: "stake", amount: 9000, at: 0, bet: 1, market: "result" }]
+    const saved = {
+      ...defaultState(),
+      startingBank: 2500,
+      profiles: [
+        { id: 1, name: "Ann", transactions: kept },
+        { id: 2, name: "Bo", transactions: broken },
+      ],
+      activeProfile: 2,
+    }
+    const state = migrate(JSON.parse(JSON.stringify(saved)))
+    expect(state.version).toBe(SCHEMA_VERSION)
+    expect(state.activeProfile).toBe(2)
+    expect(state.profiles[0]).toEqual({ id: 1, name: "Ann", transactions: kept })
+    expect(state.profiles[1]).toMatchObject({ id: 2, name: "Bo", transactions: [expect.objectContaining({ kind: "deposit", amount: 2500 })] })
+    expect(audit(state.profiles[1].transactions)).toEqual([])
+    expect(console.warn).toHaveBeenCalledOnce()
+  })
+})
@@ -0,0 +1,158 @@
+import { AUTO_BETTORS, defaultAutoBet, type AutoBetState } from "./autobet"
+import { audit, compact, openingLedger } from "./bankroll"
+import type { BetStatus, MarketId } from "./betslip"
+import type { Mode, Player } from "./engine"
+import type { Profile } from "./profiles"
+
+// Betting progress kept in localStorage between sessions. The stored object
+// carries a schema version; older versions are migrated step by step on load.
+
+export const STORAGE_KEY = "tictactoe.betting"
+export const SCHEMA_VERSION = 6
+export const STARTING_BANK = 1000
+export const STARTING_BANK_OPTIONS = [500, 1000, 2500, 5000, 10_000]
+export const FIRST_PLAYER = "Player 1"
+// Oldest entries are dropped (bets, games) or folded (each profile's transactions) past these, to stay well inside the quota
+export const MAX_BETS = 5000
+export const MAX_TRANSACTIONS = 5000
+export const MAX_GAMES = 5000
+
+export interface BetRecord {
+  id: string
+  at: number // settlement time, ms since epoch
+  player: number // profile id
+  matchup: { x: string; o: string; board: string; mode: Mode; starter: Player }
+  market: MarketId
+  selection: string
+  stake: number
+  multiplier: number
+  odds: number
+  placedAt: number // moves on the board when the bet was struck
+  outcome: Exclude<BetStatus, "open">
+  payout: number
+  bonus?: number // streak bonus credited with the payout; absent on bets recorded before it was kept
+}
+
+// What a settled bet made or lost, streak bonus included, as the ledger has it
+export const betProfit = (r: Pick<BetRecord, "stake" | "payout" | "bonus">) => r.payout + (r.bonus ?? 0) - r.stake
+
+export type BetOutcome = "correct" | "wrong" | "no-bet"
+
+export interface SavedState {
+  version: typeof SCHEMA_VERSION
+  // Opening balance of a new bankroll, and what a rebuy restores
+  startingBank: number
+  profiles: Profile[]
+  activeProfile: number
+  lastBetOutcome: BetOutcome
+  bets: BetRecord[]
+  autoBet: AutoBetState
+  games: string[] // finished 3×3 games as opening lines, for the explorer (see explorer.ts)
+}
+
+export const defaultState = (): SavedState => ({
+  version: SCHEMA_VERSION,
+  startingBank: STARTING_BANK,
+  profiles: [{ id: 1, name: FIRST_PLAYER, transactions: openingLedger(STARTING_BANK) }],
+  activeProfile: 1,
+  lastBetOutcome: "no-bet",
+  bets: [],
+  autoBet: defaultAutoBet(STARTING_BANK),
+  games: [],
+})
+
+type Stored = Record<string, unknown> & { version?: number }
+
+const num = (v: unknown, d: number) => (typeof v === "number" && Number.isFinite(v) ? v : d)
+
+// MIGRATIONS[n] turns a version-n object into version n + 1
+const MIGRATIONS: Record<number, (data: Stored) => Stored> = {
+  // v1 kept a bare bank and streak; the bank opens the transaction ledger and
+  // the streak, now derived from the ledger, starts over
+  1: ({ bank, ledger, ...rest }) => {
+    delete rest.streak
+    return { ...rest, transactions: openingLedger(Math.max(0, Math.floor(num(bank, STARTING_BANK)))), bets: ledger }
+  },
+  // v2 always opened with the default bankroll
+  2: (data) => ({ ...data, startingBank: STARTING_BANK }),
+  // v3 had no auto-bettors
+  3: (data) => ({ ...data, autoBet: defaultAutoBet(num(data.startingBank, STARTING_BANK)) }),
+  // v4 had a single bettor; its ledger and bets become the first profile's
+  4: ({ transactions, bets, ...rest }) => ({
+    ...rest,
+    profiles: [{ id: 1, name: FIRST_PLAYER, transactions }],
+    activeProfile: 1,
+    bets: Array.isArray(bets) ? bets.map((b) => ({ ...b, player: 1 })) : [],
+  }),
+  // v5 kept no games
+  5: (data) => ({ ...data, games: [] }),
+}
+
+// Falls back to fresh paper bankrolls when any bettor's run is missing
+function readAutoBet(data: unknown, bank: number): AutoBetState {
+  const auto = data as Partial<AutoBetState> | undefined
+  if (!auto?.runs || !AUTO_BETTORS.every((b) => Array.isArray(auto.runs?.[b.id]?.series))) return defaultAutoBet(bank)
+  return { ...defaultAutoBet(bank), ...auto }
+}
+
+export function migrate(data: Stored): SavedState {
+  let current = data
+  let version = typeof current.version === "number" ? current.version : SCHEMA_VERSION
+  while (version < SCHEMA_VERSION) {
+    const up = MIGRATIONS[version]
+    if (!up) throw new Error(`No migration from schema version ${version}`)
+    current = { ...up(current), version: version + 1 }
+    version++
+  }
+  if (version > SCHEMA_VERSION) throw new Error(`Saved data is from a newer version (${version})`)
+  const startingBank = STARTING_BANK_OPTIONS.includes(current.startingBank as number) ? (current.startingBank as number) : STARTING_BANK
+  const stored =
+    Array.isArray(current.profiles) && current.profiles.length
+      ? (current.profiles as Profile[])
+      : [{ id: 1, name: FIRST_PLAYER, transactions: openingLedger(STARTING_BANK) }]
+  // A ledger that fails its audit starts that player over; everyone else's is kept
+  const profiles = stored.map((p) => {
+    const problems = Array.isArray(p.transactions) ? audit(p.transactions) : ["no transactions"]
+    if (!problems.length) return p
+    console.warn(`Saved ledger of ${p.name} fails its audit (${problems[0]}); it starts over at ${startingBank}:`, p.transactions)
+    return { ...p, transactions: openingLedger(startingBank) }
+  })
+  return {
+    version: SCHEMA_VERSION,
+    startingBank,
+    profiles,
+    activeProfile: profiles.some((p) => p.id === current.activeProfile) ? (current.activeProfile as number) : profiles[0].id,
+    lastBetOutcome: ["correct", "wrong", "no-bet"].includes(current.lastBetOutcome as string)
+      ? (current.lastBetOutcome as BetOutcome)
+      : "no-bet",
+    bets: Array.isArray(current.bets) ? (current.bets as BetRecord[]) : [],
+    autoBet: readAutoBet(current.autoBet, startingBank),
+    games: Array.isArray(current.games) ? current.games.filter((g): g is string => typeof g === "string") : [],
+  }
+}
+
+export function loadState(storage: Storage | undefined = globalThis.localStorage): SavedState {
+  const raw = storage?.getItem(STORAGE_KEY)
+  if (!raw) return defaultState()
+  try {
+    return migrate(JSON.parse(raw))
+  } catch (err) {
+    console.warn("Ignoring saved betting data:", err)
+    return defaultState()
+  }
+}
+
+export function saveState(state: SavedState, storage: Storage | undefined = globalThis.localStorage) {
+  const trimmed = {
+    ...state,
+    profiles: state.profiles.map((p) => ({ ...p, transactions: compact(p.transactions, MAX_TRANSACTIONS) })),
+    bets: state.bets.slice(-MAX_BETS),
+    games: state.games.slice(-MAX_GAMES),
+  }
+  try {
+    storage?.setItem(STORAGE_KEY, JSON.stringify(trimmed))
+  } catch (err) {
+    // full or unavailable (private mode): keep playing unsaved
+    console.warn("Could not save betting data:", err)
+  }
+}
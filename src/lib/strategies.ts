@@ -0,0 +1,129 @@
+import { bestMoveFor, mediumMove, randomMove } from "./ai"
+import { MODE_RULES, centerCells, legalMoves, opponent, rowCol, type Action, type GameState } from "./engine"
+import { randomInt, type Rng } from "./rng"
+import type { SearchOptions } from "./search"
+
+// Caps a searching strategy honours: depth for reduced skill, time for quick simulations
+export type SearchLimits = Pick<SearchOptions, "maxDepth" | "timeBudgetMs">
+
+// An AI agent. Strategies only pick placements; mode reactions (block, undo)
+// are layered on top by chooseAction so every agent plays by the same rules.
+export interface Strategy {
+  id: string
+  name: string
+  description: string
+  chooseMove(state: GameState, rng: Rng, limits?: SearchLimits): number | null
+}
+
+const registry = new Map<string, Strategy>()
+
+// Strategies are looked up by id (the AI worker only receives the id), so
+// register them from module scope to make them visible on both threads.
+export function registerStrategy(strategy: Strategy) {
+  registry.set(strategy.id, strategy)
+}
+
+export function getStrategy(id: string): Strategy {
+  const strategy = registry.get(id)
+  if (!strategy) throw new Error(`Unknown strategy "${id}"`)
+  return strategy
+}
+
+export function listStrategies(): Strategy[] {
+  return [...registry.values()]
+}
+
+export const DEFAULT_STRATEGY = "hard"
+
+// Skill runs 0–100. Below 100 an agent sometimes plays a random cell
+// (always at 0) and searches only a few plies deep.
+export const MAX_SKILL = 100
+
+export function skillNoise(skill: number) {
+  return (1 - Math.min(MAX_SKILL, Math.max(0, skill)) / MAX_SKILL) ** 2
+}
+
+export function skillDepth(skill: number): number | undefined {
+  return skill >= MAX_SKILL ? undefined : 1 + Math.round((Math.max(0, skill) / MAX_SKILL) * 8)
+}
+
+// Placement a strategy makes at the given skill
+export function pickMove(state: GameState, strategy: Strategy, rng: Rng, skill = MAX_SKILL, limits: SearchLimits = {}): number | null {
+  const moves = legalMoves(state)
+  if (moves.length && rng() < skillNoise(skill)) return moves[randomInt(rng, moves.length)]
+  return strategy.chooseMove(state, rng, { ...limits, maxDepth: skillDepth(skill) ?? limits.maxDepth })
+}
+
+// Full AI turn: a mode-specific reaction if the mode offers one, else a placement
+export function chooseAction(state: GameState, strategy: Strategy, rng: Rng, skill = MAX_SKILL, limits: SearchLimits = {}): Action {
+  const counter = MODE_RULES[state.mode].counter?.(state)
+  if (counter) return counter
+  const move = pickMove(state, strategy, rng, skill, limits)
+  return move === null ? { type: "pass" } : { type: "place", cell: move }
+}
+
+registerStrategy({
+  id: "easy",
+  name: "Easy",
+  description: "Plays a random free cell.",
+  chooseMove: randomMove,
+})
+
+registerStrategy({
+  id: "medium",
+  name: "Medium",
+  description: "Wins or blocks when it can, otherwise takes the centre or a corner.",
+  chooseMove: mediumMove,
+})
+
+registerStrategy({
+  id: "hard",
+  name: "Hard",
+  description: "Full alpha-beta search; perfect on 3×3.",
+  chooseMove: (state, rng, limits) => bestMoveFor(state, rng, limits),
+})
+
+registerStrategy({
+  id: "noisy",
+  name: "Minimax + ε-noise",
+  description: "Plays the best move, but 20% of the time a random one.",
+  chooseMove: (state, rng, limits) => (rng() < 0.2 ? randomMove(state, rng) : bestMoveFor(state, rng, limits)),
+})
+
+registerStrategy({
+  id: "shallow",
+  name: "Depth-limited (2 ply)",
+  description: "Searches only its own move and the reply, then guesses.",
+  chooseMove: (state, rng, limits) => bestMoveFor(state, rng, { ...limits, maxDepth: Math.min(2, limits?.maxDepth ?? 2) }),
+})
+
+registerStrategy({
+  id: "mirror",
+  name: "Mirror opponent",
+  description: "Answers with the point reflection of the opponent's last move.",
+  chooseMove: (state, rng) => {
+    const theirs = state.last[opponent(state.current)]
+    if (theirs !== null) {
+      const { row, col } = rowCol(state.size, theirs)
+      const mirrored = (state.size.rows - 1 - row) * state.size.cols + (state.size.cols - 1 - col)
+      if (legalMoves(state).includes(mirrored)) return mirrored
+    }
+    return mediumMove(state, rng)
+  },
+})
+
+registerStrategy({
+  id: "center",
+  name: "Always centre",
+  description: "Takes the free cell closest to the middle of the board.",
+  chooseMove: (state) => {
+    const moves = legalMoves(state)
+    if (!moves.length) return null
+    const { row: mr, col: mc } = rowCol(state.size, centerCells(state.size)[0])
+    const dist = (i: number) => {
+      const { row, col } = rowCol(state.size, i)
+      return Math.abs(row - mr) + Math.abs(col - mc)
+    }
+    return moves.reduce((a, b) => (dist(b) < dist(a) ? b : a))
+  },
+})
@@ -0,0 +1,109 @@
+import {
+  DEFAULT_SIZE,
+  calculateWinner,
+  emptyCells,
+  isBoardFull,
+  opponent,
+  sizeKey,
+  type GameState,
+  type Mark,
+  type Player,
+} from "./engine"
+import { symmetries } from "./search"
+
+// Perfect play on the 3×3 board, solved once and kept. Positions are solved
+// on first lookup and cached under their smallest symmetric form, so the
+// whole game (5,478 positions with X opening, 765 up to symmetry) is
+// only ever worked out one time. Other boards are beyond it; lookup() answers
+// null for them.
+
+export interface TablebaseValue {
+  result: Player | "draw" // with perfect play from here
+  plies: number // until the game ends: the winner hurries, the loser holds out
+}
+
+export interface TablebaseMove extends TablebaseValue {
+  cell: number
+}
+
+export interface TablebaseEntry extends TablebaseValue {
+  toMove: Player
+  moves: TablebaseMove[] // every legal move, and what it leads to
+  best: number[] // the moves keeping the result, soonest (or latest, when losing)
+}
+
+const CELLS = 9
+const solved = new Map<number, TablebaseValue>()
+
+// Whether the tablebase answers for this position: normal 3×3 play, no cell blocked
+export const covers = (state: GameState) => sizeKey(state.size) === sizeKey(DEFAULT_SIZE) && state.blocked === null
+
+// Base-3 code of the board in its smallest symmetric form, with the side to move
+function key(board: Mark[], toMove: Player): number {
+  let min = Infinity
+  for (const perm of symmetries(DEFAULT_SIZE)) {
+    let code = 0
+    for (const i of perm) code = code * 3 + (board[i] === "X" ? 1 : board[i] === "O" ? 2 : 0)
+    min = Math.min(min, code)
+  }
+  return min * 2 + (toMove === "O" ? 1 : 0)
+}
+
+// How good `v` is for `player`: a win, sooner; else a draw; else a loss, later
+const rank = (v: TablebaseValue, player: Player) =>
+  v.result === player ? 2 * CELLS - v.plies : v.result === "draw" ? 0 : -2 * CELLS + v.plies
+
+function solve(board: Mark[], toMove: Player): TablebaseValue {
+  const k = key(board, toMove)
+  const known = solved.get(k)
+  if (known) return known
+  const { winner } = calculateWinner(board, DEFAULT_SIZE)
+  let value: TablebaseValue
+  if (winner) value = { result: winner, plies: 0 }
+  else if (isBoardFull(board)) value = { result: "draw", plies: 0 }
+  else {
+    value = { result: opponent(toMove), plies: 0 }
+    let top = -Infinity
+    for (const cell of emptyCells(board)) {
+      board[cell] = toMove
+      const child = solve(board, opponent(toMove))
+      board[cell] = null
+      const option = { result: child.result, plies: child.plies + 1 }
+      if (rank(option, toMove) > top) {
+        top = rank(option, toMove)
+        value = option
+      }
+    }
+  }
+  solved.set(k, value)
+  return value
+}
+
+// X opens unless told otherwise, so equal counts mean X is to move
+function sideToMove(board: Mark[]): Player {
+  const xs = board.filter((m) => m === "X").length
+  const os = board.filter((m) => m === "O").length
+  return xs > os ? "O" : "X"
+}
+
+// Perfect-play value of a 3×3 board and of every move from it; null when the
+// board isn't 3×3 or its mark counts can't come from a game.
+export function lookup(board: Mark[], toMove: Player = sideToMove(board)): TablebaseEntry | null {
+  if (board.length !== CELLS) return null
+  const xs = board.filter((m) => m === "X").length
+  const os = board.filter((m) => m === "O").length
+  if (Math.abs(xs - os) > 1 || (xs > os && toMove === "X") || (os > xs && toMove === "O")) return null
+  const b = board.slice()
+  const value = solve(b, toMove)
+  const over = !!calculateWinner(b, DEFAULT_SIZE).winner || isBoardFull(b)
+  const moves: TablebaseMove[] = over
+    ? []
+    : emptyCells(b).map((cell) => {
+        b[cell] = toMove
+        const child = solve(b, opponent(toMove))
+        b[cell] = null
+        return { cell, result: child.result, plies: child.plies + 1 }
+      })
+  const best = moves.filter((m) => m.result === value.result && m.plies === value.plies).map((m) => m.cell)
+  return { ...value, toMove, moves, best }
+}
@@ -0,0 +1,79 @@
+import { applyAction, legalActions, opponent, ruleEvent, type Action, type GameState, type Player } from "./engine"
+import type { Rng } from "./rng"
+
+// The current game as a list of plies from its opening position, with a
+// cursor so plies can be taken back and replayed. Plies past the cursor are
+// the redo tail; playing anything new drops them.
+
+export interface Ply {
+  mark: Player // the side that acted (a chaos mutation goes to the side to move)
+  action: Action
+  // The cell played, blocked, or taken back by an undo; null for passes and mutations
+  cell: number | null
+  state: GameState // the position after the ply, board included
+}
+
+export interface Timeline {
+  start: GameState
+  plies: Ply[]
+  at: number // plies in effect
+}
+
+export function startTimeline(state: GameState): Timeline {
+  return { start: state, plies: [], at: 0 }
+}
+
+// Position after the first `n` plies
+export function positionAt(timeline: Timeline, n: number): GameState {
+  const k = Math.min(n, timeline.plies.length)
+  return k <= 0 ? timeline.start : timeline.plies[k - 1].state
+}
+
+export const present = (timeline: Timeline) => positionAt(timeline, timeline.at)
+
+function record(timeline: Timeline, action: Action, state: GameState): Timeline {
+  const before = present(timeline)
+  const cell =
+    action.type === "place" || action.type === "block" ? action.cell
+    : action.type === "undo" ? before.last[opponent(before.current)]
+    : null
+  const ply: Ply = { mark: before.current, action, cell, state }
+  return { start: timeline.start, plies: [...timeline.plies.slice(0, timeline.at), ply], at: timeline.at + 1 }
+}
+
+// One action on its own, as applyAction
+export function applyPly(timeline: Timeline, action: Action): Timeline {
+  return record(timeline, action, applyAction(present(timeline), action))
+}
+
+// An action plus whatever rule event it sets off, as step(); the event is a ply of its own
+export function playPly(timeline: Timeline, action: Action, rng: Rng): Timeline {
+  const next = applyPly(timeline, action)
+  const event = ruleEvent(present(next), rng)
+  return event ? applyPly(next, event) : next
+}
+
+const sameState = (a: GameState, b: GameState) => JSON.stringify(a) === JSON.stringify(b)
+
+// Catches up with a position played elsewhere (the relay). One legal action
+// away is recorded as that ply; anything else starts the list over from it.
+export function follow(timeline: Timeline, state: GameState): Timeline {
+  const before = present(timeline)
+  if (sameState(before, state)) return timeline
+  const action = legalActions(before).find((a) => sameState(applyAction(before, a), state))
+  return action ? record(timeline, action, state) : startTimeline(state)
+}
+
+// Steps back a ply, then on until `stop` holds or the opening is reached
+export function undoPly(timeline: Timeline, stop: (state: GameState) => boolean = () => true): Timeline {
+  let at = Math.max(0, timeline.at - 1)
+  while (at > 0 && !stop(positionAt(timeline, at))) at--
+  return { ...timeline, at }
+}
+
+// Replays a ply of the redo tail, then on until `stop` holds or the tail runs out
+export function redoPly(timeline: Timeline, stop: (state: GameState) => boolean = () => true): Timeline {
+  let at = Math.min(timeline.plies.length, timeline.at + 1)
+  while (at < timeline.plies.length && !stop(positionAt(timeline, at))) at++
+  return { ...timeline, at }
+}
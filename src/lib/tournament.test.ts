@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest"
+import { createTournament, nextFixture, recordResult, type Entrant, type Tournament } from "./tournament"
+
+const entrants = (n: number): Entrant[] =>
+  Array.from({ length: n }, (_, i) => ({ id: `e${i}`, name: `Seed ${i + 1}`, strategyId: "hard", skill: 100 }))
+
+// Plays every fixture with the higher seed (lower index) winning
+function playOut(t: Tournament): Tournament {
+  for (let f = nextFixture(t); f; f = nextFixture(t)) t = recordResult(t, f.id, f.x < f.o ? "X" : "O")
+  return t
+}
+
+const firstRound = (t: Tournament) => t.ties.filter((tie) => tie.round === 1).map((tie) => [tie.a, tie.b])
+
+describe("knockout seeding", () => {
+  it("pairs eight entrants in standard bracket order", () => {
+    expect(firstRound(createTournament("knockout", entrants(8)))).toEqual([
+      [0, 7],
+      [3, 4],
+      [1, 6],
+      [2, 5],
+    ])
+  })
+
+  it.each([4, 5, 6, 8, 11, 16])("keeps the top two seeds apart until the final with %i entrants", (n) => {
+    const t = playOut(createTournament("knockout", entrants(n)))
+    const final = t.ties.find((tie) => tie.round === t.rounds)!
+    expect([final.a, final.b]).toEqual([0, 1])
+    expect(t.champion).toBe(0)
+    // and the top four reach the semi-finals
+    expect(t.ties.filter((tie) => tie.round === t.rounds - 1).flatMap((tie) => [tie.a, tie.b])).toEqual([0, 3, 1, 2])
+  })
+
+  it("gives the byes to the top seeds", () => {
+    const byes = createTournament("knockout", entrants(6)).ties.filter((tie) => tie.round === 1 && tie.b === null)
+    expect(byes.map((tie) => tie.a)).toEqual([0, 1])
+  })
+})
@@ -0,0 +1,213 @@
+import type { Player } from "./engine"
+
+// Tournaments between AI entrants. Every pairing is played home and away:
+// each entrant gets one game as X (X always moves first in a fixture).
+
+export type TournamentFormat = "round-robin" | "knockout"
+
+export interface Entrant {
+  id: string
+  name: string
+  strategyId: string
+  skill: number
+}
+
+export type FixtureResult = Player | "draw"
+
+export interface Fixture {
+  id: number
+  round: number
+  tie: number | null // knockout tie the game belongs to
+  x: number // entrant index
+  o: number
+  result: FixtureResult | null
+  prediction: FixtureResult | null
+}
+
+// A knockout pairing; `b === null` is a bye
+export interface Tie {
+  round: number
+  a: number | null
+  b: number | null
+  winner: number | null
+}
+
+export interface Tournament {
+  format: TournamentFormat
+  entrants: Entrant[]
+  fixtures: Fixture[]
+  ties: Tie[]
+  rounds: number
+  champion: number | null
+}
+
+export interface Standing {
+  entrant: number
+  played: number
+  wins: number
+  draws: number
+  losses: number
+  points: number
+}
+
+const WIN_POINTS = 3
+const DRAW_POINTS = 1
+
+export function createTournament(format: TournamentFormat, entrants: Entrant[]): Tournament {
+  if (entrants.length < 2) throw new Error("A tournament needs at least two entrants")
+  return format === "round-robin" ? roundRobin(entrants) : knockout(entrants)
+}
+
+// Double round robin via the circle method; the return legs follow the first half
+function roundRobin(entrants: Entrant[]): Tournament {
+  const ids: (number | null)[] = entrants.map((_, i) => i)
+  if (ids.length % 2) ids.push(null)
+  const half = ids.length - 1
+  const fixtures: Fixture[] = []
+  const push = (round: number, x: number, o: number) =>
+    fixtures.push({ id: fixtures.length, round, tie: null, x, o, result: null, prediction: null })
+  const firstLegs: [number, number, number][] = []
+  let ring = ids.slice(1)
+  for (let r = 0; r < half; r++) {
+    const order = [ids[0], ...ring]
+    for (let i = 0; i < order.length / 2; i++) {
+      const a = order[i]
+      const b = order[order.length - 1 - i]
+      if (a === null || b === null) continue
+      // alternate who is at home so nobody is X every round
+      firstLegs.push(r % 2 ? [r + 1, b, a] : [r + 1, a, b])
+    }
+    ring = [ring[ring.length - 1], ...ring.slice(0, -1)]
+  }
+  for (const [round, x, o] of firstLegs) push(round, x, o)
+  for (const [round, x, o] of firstLegs) push(round + half, o, x)
+  return { format: "round-robin", entrants, fixtures, ties: [], rounds: half * 2, champion: null }
+}
+
+// Seeds (0 = top) in standard bracket order, e.g. 0 7 3 4 1 6 2 5 for eight:
+// each pair sums to slots - 1, and the top two seeds can only meet in the final
+function bracketOrder(slots: number): number[] {
+  let order = [0]
+  for (let size = 2; size <= slots; size *= 2) order = order.flatMap((seed) => [seed, size - 1 - seed])
+  return order
+}
+
+function knockout(entrants: Entrant[]): Tournament {
+  let slots = 1
+  while (slots < entrants.length) slots *= 2
+  const rounds = Math.log2(slots)
+  // missing seeds become byes, which go to the top seeds
+  const order = bracketOrder(slots)
+  const ties: Tie[] = []
+  for (let i = 0; i < slots; i += 2) {
+    const a = order[i]
+    const b = order[i + 1] < entrants.length ? order[i + 1] : null
+    ties.push({ round: 1, a, b, winner: b === null ? a : null })
+  }
+  const t: Tournament = { format: "knockout", entrants, fixtures: [], ties, rounds, champion: null }
+  return advanceKnockout(scheduleTies(t))
+}
+
+// Home and away legs for every tie that has both sides and no games yet
+function scheduleTies(t: Tournament): Tournament {
+  const fixtures = t.fixtures.slice()
+  t.ties.forEach((tie, index) => {
+    if (tie.a === null || tie.b === null || tie.winner !== null) return
+    if (fixtures.some((f) => f.tie === index)) return
+    for (const [x, o] of [[tie.a, tie.b], [tie.b, tie.a]]) {
+      fixtures.push({ id: fixtures.length, round: tie.round, tie: index, x, o, result: null, prediction: null })
+    }
+  })
+  return { ...t, fixtures }
+}
+
+// Wins per side in a tie's finished legs
+function tieScore(t: Tournament, index: number) {
+  const tie = t.ties[index]
+  let a = 0
+  let b = 0
+  for (const f of t.fixtures) {
+    if (f.tie !== index || !f.result || f.result === "draw") continue
+    const winner = f.result === "X" ? f.x : f.o
+    if (winner === tie.a) a++
+    else if (winner === tie.b) b++
+  }
+  return { a, b }
+}
+
+// Decide finished ties (a level tie gets one decider, then the higher seed goes
+// through) and open the next round once the current one is done
+function advanceKnockout(t: Tournament): Tournament {
+  const ties = t.ties.map((tie) => ({ ...tie }))
+  let fixtures = t.fixtures
+  ties.forEach((tie, index) => {
+    if (tie.winner !== null || tie.a === null || tie.b === null) return
+    const legs = fixtures.filter((f) => f.tie === index)
+    if (legs.some((f) => !f.result)) return
+    const { a, b } = tieScore({ ...t, ties, fixtures }, index)
+    if (a !== b) tie.winner = a > b ? tie.a : tie.b
+    else if (legs.length < 3) {
+      fixtures = [...fixtures, { id: fixtures.length, round: tie.round, tie: index, x: tie.a, o: tie.b, result: null, prediction: null }]
+    } else tie.winner = Math.min(tie.a, tie.b)
+  })
+  const round = Math.max(...ties.map((tie) => tie.round))
+  const current = ties.filter((tie) => tie.round === round)
+  let champion = t.champion
+  if (current.every((tie) => tie.winner !== null)) {
+    if (current.length === 1) champion = current[0].winner
+    else {
+      for (let i = 0; i < current.length; i += 2) {
+        ties.push({ round: round + 1, a: current[i].winner, b: current[i + 1].winner, winner: null })
+      }
+    }
+  }
+  return scheduleTies({ ...t, ties, fixtures, champion })
+}
+
+export function nextFixture(t: Tournament): Fixture | null {
+  return t.fixtures.find((f) => !f.result) ?? null
+}
+
+export function recordResult(t: Tournament, fixtureId: number, result: FixtureResult): Tournament {
+  const fixtures = t.fixtures.map((f) => (f.id === fixtureId ? { ...f, result } : f))
+  const next = { ...t, fixtures }
+  if (t.format === "knockout") return advanceKnockout(next)
+  if (fixtures.every((f) => f.result)) return { ...next, champion: standings(next)[0].entrant }
+  return next
+}
+
+export function predict(t: Tournament, fixtureId: number, prediction: FixtureResult | null): Tournament {
+  return {
+    ...t,
+    fixtures: t.fixtures.map((f) => (f.id === fixtureId && !f.result ? { ...f, prediction } : f)),
+  }
+}
+
+export function standings(t: Tournament): Standing[] {
+  const table: Standing[] = t.entrants.map((_, entrant) => ({ entrant, played: 0, wins: 0, draws: 0, losses: 0, points: 0 }))
+  for (const f of t.fixtures) {
+    if (!f.result) continue
+    const x = table[f.x]
+    const o = table[f.o]
+    x.played++
+    o.played++
+    if (f.result === "draw") {
+      x.draws++
+      o.draws++
+    } else {
+      const [w, l] = f.result === "X" ? [x, o] : [o, x]
+      w.wins++
+      l.losses++
+    }
+  }
+  for (const s of table) s.points = s.wins * WIN_POINTS + s.draws * DRAW_POINTS
+  // points, then wins, then seed
+  return table.sort((a, b) => b.points - a.points || b.wins - a.wins || a.entrant - b.entrant)
+}
+
+export function predictionScore(t: Tournament) {
+  const settled = t.fixtures.filter((f) => f.result && f.prediction)
+  return { made: settled.length, correct: settled.filter((f) => f.prediction === f.result).length }
+}
+
+export const isFinished = (t: Tournament) => t.champion !== null